@@ -2,10 +2,25 @@ import React, { useState, useRef } from 'react';
 import FileUpload from './components/FileUpload';
 import Dashboard from './components/Dashboard';
 import LandingPage from './components/LandingPage';
-import { AppState, ProcessedData, ProcessingOptions } from './types';
-import { processMediaWithGemini } from './services/geminiService';
-import { saveToCache } from './services/cacheService';
-import { Sparkles } from 'lucide-react';
+import VocabularyView from './components/VocabularyView';
+import SessionsView from './components/SessionsView';
+import StorageView from './components/StorageView';
+import { AppState, ProcessedData, ProcessingOptions, VocabularySource } from './types';
+import { processMedia } from './services/processingService';
+import { CANCELLED_MESSAGE } from './services/abortUtils';
+import { CacheMatch, findCachedSession, generateFingerprint, getCacheEntry, saveCacheEntry, SessionSummary, touchSession } from './services/cacheService';
+import { getMediaDurationMs } from './services/mediaAudioService';
+import { enforceStorageBudget, requestPersistentStorage } from './services/storageService';
+import { addCardsToDeck } from './services/srsService';
+import { syncVocabulary } from './services/vocabularyService';
+import { Sparkles, BookOpen, History, HardDrive } from 'lucide-react';
+
+// The study session on screen; its media file may not be at hand (transcript-only mode)
+interface OpenSession {
+  fingerprint: string;
+  fileName: string;
+  durationMs?: number | null; // Stored with the cache entry for the name + duration fallback
+}
 
 const App: React.FC = () => {
   // New State: Show Landing Page initially
@@ -13,27 +28,51 @@ const App: React.FC = () => {
 
   const [appState, setAppState] = useState<AppState>(AppState.UPLOAD);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [currentSession, setCurrentSession] = useState<OpenSession | null>(null);
   const [processedData, setProcessedData] = useState<ProcessedData | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [progress, setProgress] = useState<number>(0);
 
+  // Vocabulary Library State
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [initialSeekMs, setInitialSeekMs] = useState<number | null>(null);
+  const [pendingSource, setPendingSource] = useState<VocabularySource | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const relinkInputRef = useRef<HTMLInputElement>(null);
+
   // Ref to hold the abort controller
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  const handleStartProcessing = async (file: File, options: ProcessingOptions, cachedData?: ProcessedData) => {
+  // Cached translation + the shared review deck and vocabulary library (cards from every video end up there)
+  const persistData = async (session: OpenSession, data: ProcessedData) => {
+    await saveCacheEntry(session.fingerprint, session.fileName, data, session.durationMs);
+    await addCardsToDeck(data.flashcards, data.targetLanguage, session.fileName);
+    await syncVocabulary(session.fingerprint, session.fileName, data);
+  };
+
+  const handleStartProcessing = async (file: File, options: ProcessingOptions, cached?: CacheMatch) => {
+    // A cached match keeps the key it was found under (a name + duration hit differs from the file's own fingerprint)
+    const session: OpenSession = cached
+      ? { fingerprint: cached.fingerprint, fileName: file.name }
+      : { fingerprint: await generateFingerprint(file), fileName: file.name, durationMs: await getMediaDurationMs(file) };
     setCurrentFile(file);
+    setCurrentSession(session);
+    setInitialSeekMs(null);
     setAppState(AppState.PROCESSING);
     setErrorMsg(null);
     setStatusMessage("Initializing...");
     setProgress(5);
 
     // If cached data is provided, skip the API call
-    if (cachedData) {
+    if (cached) {
         setStatusMessage("Loading from cache...");
         setProgress(100);
+        addCardsToDeck(cached.data.flashcards, cached.data.targetLanguage, file.name);
+        touchSession(session.fingerprint);
         setTimeout(() => {
-            setProcessedData(cachedData);
+            setProcessedData(cached.data);
             setAppState(AppState.DASHBOARD);
         }, 800); // Small fake delay for UX smoothness
         return;
@@ -44,7 +83,7 @@ const App: React.FC = () => {
     abortControllerRef.current = controller;
 
     try {
-      const data = await processMediaWithGemini(
+      const data = await processMedia(
         file, 
         options, 
         (status, pct) => {
@@ -54,14 +93,16 @@ const App: React.FC = () => {
         controller.signal // Pass signal to service
       );
       
-      // Save result to cache for future use
-      await saveToCache(file, data);
+      // Save result to cache for future use, then make room for it under the size budget
+      await persistData(session, data);
+      requestPersistentStorage();
+      enforceStorageBudget(session.fingerprint).catch(error => console.error("[IndexedDB] Enforcing the storage budget failed:", error));
 
       setProgress(100);
       setProcessedData(data);
       setAppState(AppState.DASHBOARD);
     } catch (err: any) {
-      if (err.message === "Processing cancelled by user.") {
+      if (err.message === CANCELLED_MESSAGE) {
           resetApp();
           return;
       }
@@ -76,6 +117,82 @@ const App: React.FC = () => {
     }
   };
 
+  // Dashboard edits (new tracks, corrected cues, added cards) are persisted immediately
+  const handleDataChange = (data: ProcessedData) => {
+      setProcessedData(data);
+      if (!currentSession) return;
+      persistData(currentSession, data).catch(error => {
+          console.error("Saving session changes failed:", error);
+          alert(`Your changes could not be saved on this device: ${error?.message || error}`);
+      });
+  };
+
+  // --- JUMP-BACK (vocabulary sources, library search hits) ---
+  const openAtSource = (file: File | null, data: ProcessedData, source: VocabularySource) => {
+      setCurrentFile(file);
+      setCurrentSession({ fingerprint: source.fingerprint, fileName: file?.name || source.fileName });
+      touchSession(source.fingerprint);
+      setProcessedData(data);
+      setInitialSeekMs(source.timestampMs);
+      setAppState(AppState.DASHBOARD);
+      setShowVocabulary(false);
+      setShowSessions(false);
+  };
+
+  // Browsers cannot reopen a file by path, so the user picks it again and we verify the fingerprint
+  const requestRelink = (source: VocabularySource) => {
+      setPendingSource(source);
+      relinkInputRef.current?.click();
+  };
+
+  const handleJumpTo = async (source: VocabularySource) => {
+      if (currentSession?.fingerprint === source.fingerprint && processedData) {
+          openAtSource(currentFile, processedData, source);
+          return;
+      }
+      requestRelink(source);
+  };
+
+  // --- SESSION LIBRARY ---
+  // Opens without media (transcript-only) unless the user picks the file
+  const handleOpenSession = async (session: SessionSummary, withMedia: boolean) => {
+      const source: VocabularySource = { fingerprint: session.fingerprint, fileName: session.fileName, timestampMs: null, context: '' };
+      if (withMedia) {
+          requestRelink(source);
+          return;
+      }
+      const entry = await getCacheEntry(session.fingerprint);
+      if (!entry) {
+          alert(`"${session.title}" is no longer saved.`);
+          return;
+      }
+      const file = currentSession?.fingerprint === session.fingerprint ? currentFile : null;
+      openAtSource(file, entry.data, source);
+  };
+
+  // The open session is closed with it; a later edit would otherwise save the deleted session again
+  const handleSessionDeleted = (fingerprint: string) => {
+      if (currentSession?.fingerprint === fingerprint) resetApp();
+  };
+
+  const handleRelinkFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file || !pendingSource) return;
+
+      // Old v2 keys are upgraded on lookup, so the source may still carry the legacy fingerprint
+      const match = await findCachedSession(file);
+      if (!match || (match.fingerprint !== pendingSource.fingerprint && match.legacyFingerprint !== pendingSource.fingerprint)) {
+          alert(`That file does not match "${pendingSource.fileName}". Please choose the original file.`);
+          return;
+      }
+      if (match.strategy === 'name-duration' && !confirm(`"${file.name}" only matches "${pendingSource.fileName}" by name and length, not by contents. Use it anyway?`)) {
+          return;
+      }
+      openAtSource(file, match.data, { ...pendingSource, fingerprint: match.fingerprint });
+      setPendingSource(null);
+  };
+
   const handleCancel = () => {
       if (abortControllerRef.current) {
           abortControllerRef.current.abort();
@@ -86,7 +203,9 @@ const App: React.FC = () => {
   const resetApp = () => {
     setAppState(AppState.UPLOAD);
     setCurrentFile(null);
+    setCurrentSession(null);
     setProcessedData(null);
+    setInitialSeekMs(null);
     setErrorMsg(null);
     setStatusMessage(null);
     setProgress(0);
@@ -102,12 +221,61 @@ const App: React.FC = () => {
       return <LandingPage onGetStarted={() => setShowLanding(false)} />;
   }
 
-  // 2. Dashboard View (When file is processed)
-  if (appState === AppState.DASHBOARD && currentFile && processedData) {
-      return <Dashboard file={currentFile} data={processedData} onBack={resetApp} />;
+  // 2. Vocabulary Library (across all processed videos)
+  if (showVocabulary) {
+      return (
+          <>
+              <VocabularyView onBack={() => { setShowVocabulary(false); setInitialSeekMs(null); }} onJumpTo={handleJumpTo} />
+              <input ref={relinkInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleRelinkFile} />
+          </>
+      );
+  }
+
+  // 3. Session Library (every cached session)
+  if (showSessions) {
+      return (
+          <>
+              <SessionsView
+                  currentFingerprint={currentSession?.fingerprint ?? null}
+                  onBack={() => setShowSessions(false)}
+                  onOpen={handleOpenSession}
+                  onDeleted={handleSessionDeleted}
+              />
+              <input ref={relinkInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleRelinkFile} />
+          </>
+      );
+  }
+
+  // 4. Storage Settings (usage by category, purge, size budget)
+  if (showStorage) {
+      return <StorageView currentFingerprint={currentSession?.fingerprint ?? null} onBack={() => setShowStorage(false)} />;
   }
 
-  // 3. Main App View (Upload / Processing / Error)
+  // 5. Dashboard View (When file is processed, or a saved session is opened without its media)
+  if (appState === AppState.DASHBOARD && currentSession && processedData) {
+      return (
+          <>
+              <Dashboard
+                  // A session opened from search is a fresh dashboard, starting at the hit
+                  key={currentSession.fingerprint}
+                  file={currentFile}
+                  fingerprint={currentSession.fingerprint}
+                  fileName={currentSession.fileName}
+                  onRelinkMedia={() => requestRelink({ ...currentSession, timestampMs: null, context: '' })}
+                  data={processedData}
+                  onDataChange={handleDataChange}
+                  onBack={resetApp}
+                  onOpenVocabulary={() => setShowVocabulary(true)}
+                  onOpenStorage={() => setShowStorage(true)}
+                  onOpenSource={handleJumpTo}
+                  initialSeekMs={initialSeekMs}
+              />
+              <input ref={relinkInputRef} type="file" accept="video/*,audio/*" className="hidden" onChange={handleRelinkFile} />
+          </>
+      );
+  }
+
+  // 6. Main App View (Upload / Processing / Error)
   return (
     <div className="min-h-screen bg-[#050505] text-white font-sans selection:bg-white selection:text-black">
         {/* Simple App Header */}
@@ -119,9 +287,20 @@ const App: React.FC = () => {
                  <span className="font-bold text-lg text-white tracking-tight">BilingualFlow</span>
             </div>
             {appState === AppState.UPLOAD && (
-                <button onClick={goHome} className="text-sm font-medium text-gray-400 hover:text-white transition-colors">
-                    Back to Home
-                </button>
+                <div className="flex items-center gap-6">
+                    <button onClick={() => setShowSessions(true)} className="flex items-center gap-2 text-sm font-medium text-gray-400 hover:text-white transition-colors">
+                        <History className="w-4 h-4" /> Recent Sessions
+                    </button>
+                    <button onClick={() => setShowVocabulary(true)} className="flex items-center gap-2 text-sm font-medium text-gray-400 hover:text-white transition-colors">
+                        <BookOpen className="w-4 h-4" /> My Vocabulary
+                    </button>
+                    <button onClick={() => setShowStorage(true)} className="flex items-center gap-2 text-sm font-medium text-gray-400 hover:text-white transition-colors">
+                        <HardDrive className="w-4 h-4" /> Storage
+                    </button>
+                    <button onClick={goHome} className="text-sm font-medium text-gray-400 hover:text-white transition-colors">
+                        Back to Home
+                    </button>
+                </div>
             )}
         </header>
 
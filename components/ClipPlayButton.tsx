@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaRef } from '../types';
+import { getClipBlob } from '../services/audioClipService';
+import { Volume2, Loader2 } from 'lucide-react';
+
+interface ClipPlayButtonProps {
+  media: MediaRef;
+  className?: string;
+}
+
+// Plays a stored clip of the original speaker
+const ClipPlayButton: React.FC<ClipPlayButtonProps> = ({ media, className = '' }) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlRef = useRef<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => () => {
+    audioRef.current?.pause();
+    if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    audioRef.current = null;
+    urlRef.current = null;
+  }, [media.clipId]);
+
+  const play = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!audioRef.current) {
+      setIsLoading(true);
+      const blob = await getClipBlob(media.clipId);
+      setIsLoading(false);
+      if (!blob) {
+        setIsMissing(true);
+        return;
+      }
+      urlRef.current = URL.createObjectURL(blob);
+      audioRef.current = new Audio(urlRef.current);
+    }
+    audioRef.current.currentTime = 0;
+    audioRef.current.play().catch(err => console.error("Clip playback failed", err));
+  };
+
+  return (
+    <button
+      onClick={play}
+      disabled={isMissing}
+      className={`p-2 rounded-full transition-colors disabled:opacity-40 ${className}`}
+      title={isMissing ? 'Clip is no longer stored' : 'Play original audio'}
+    >
+      {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+    </button>
+  );
+};
+
+export default ClipPlayButton;
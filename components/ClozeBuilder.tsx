@@ -0,0 +1,58 @@
+import React, { useMemo, useState } from 'react';
+import { ClozeRange, Subtitle } from '../types';
+import { rangesFromTokens, tokenizeLine } from '../services/clozeService';
+import { Pickaxe, X, Loader2 } from 'lucide-react';
+
+interface ClozeBuilderProps {
+  subtitle: Subtitle;
+  isSaving: boolean;
+  onCreate: (ranges: ClozeRange[]) => void;
+  onCancel: () => void;
+}
+
+// Inline picker under a transcript row: click the words to hide on the card
+const ClozeBuilder: React.FC<ClozeBuilderProps> = ({ subtitle, isSaving, onCreate, onCancel }) => {
+  const tokens = useMemo(() => tokenizeLine(subtitle.textOriginal), [subtitle.textOriginal]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const toggle = (index: number) => {
+    const next = new Set(selected);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    setSelected(next);
+  };
+
+  return (
+    <div className="col-span-12 mt-2 p-3 rounded-lg border border-amber-200 bg-amber-50/60">
+      <p className="text-xs text-amber-700 mb-2">Click the words to hide on the card:</p>
+      <p className="leading-loose">
+        {tokens.map((token, i) => token.isWord ? (
+          <button
+            key={i}
+            onClick={() => toggle(i)}
+            disabled={isSaving}
+            className={`px-0.5 rounded transition-colors ${selected.has(i) ? 'bg-amber-400 text-white' : 'hover:bg-amber-100 text-gray-800'}`}
+          >
+            {token.text}
+          </button>
+        ) : <span key={i}>{token.text}</span>)}
+      </p>
+      {subtitle.textTranslated && <p className="text-xs text-gray-500 italic mt-1">Hint: {subtitle.textTranslated}</p>}
+      <div className="flex justify-end gap-2 mt-2">
+        <button onClick={onCancel} disabled={isSaving} className="flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-white">
+          <X className="w-3 h-3" /> Cancel
+        </button>
+        <button
+          onClick={() => onCreate(rangesFromTokens(tokens, selected))}
+          disabled={selected.size === 0 || isSaving}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Pickaxe className="w-3 h-3" />}
+          {isSaving ? 'Cutting audio...' : 'Create cloze card'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClozeBuilder;
@@ -1,42 +1,225 @@
-import React, { useRef, useState } from 'react';
-import { ProcessedData } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClozeRange, Flashcard, MediaRef, ProcessedData, Subtitle, VocabularySource } from '../types';
 import VideoPlayer, { VideoPlayerRef } from './VideoPlayer';
+import SubtitleEditor from './SubtitleEditor';
 import NotesPanel from './NotesPanel';
 import FlashcardsPanel from './FlashcardsPanel';
-import { ArrowLeft, Volume2, Loader2, Download, FileText, FileVideo, Music, AlertTriangle, Terminal, X, Copy, Check } from 'lucide-react';
-import { getTTSAudio, audioBufferToWav } from '../services/geminiService';
+import PracticePanel from './PracticePanel';
+import InteractiveText from './InteractiveText';
+import DefinitionPopover, { WordSelection } from './DefinitionPopover';
+import ClozeBuilder from './ClozeBuilder';
+import ShortcutsOverlay from './ShortcutsOverlay';
+import SearchBar from './SearchBar';
+import { ArrowLeft, Volume2, Loader2, Download, FileText, FileVideo, Music, AlertTriangle, Terminal, X, Copy, Check, Plus, FileJson, PencilLine, BookOpen, Pickaxe, FileAudio, Archive, Keyboard, LocateFixed, Link2, HardDrive, RotateCcw } from 'lucide-react';
+import { loadVoicePreference } from '../services/ttsCacheService';
+import { DubResult, DubSettings, generateDubTrack, getDubProgress, loadDubSettings, saveDubSettings } from '../services/dubService';
+import { CANCELLED_MESSAGE } from '../services/abortUtils';
+import { getLanguageCode, LANGUAGES } from '../services/languages';
+import { listTracks, getTrackText, ORIGINAL_TRACK_ID, SubtitleTrack } from '../services/subtitleTracks';
+import { addTranslationTrack } from '../services/processingService';
+import { downloadBlob, downloadExport, EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import { formatTime } from '../services/timeUtils';
+import { buildClozeCard } from '../services/clozeService';
+import { attachLineClip, buildClipsZip, clipFileName, createClip, extractClipWav, releaseDecodedAudio } from '../services/audioClipService';
+import { findActiveCueIndex } from '../services/cueLookup';
+import { formatShortcutKey, getShortcutKey, registerShortcuts } from '../services/shortcutService';
+
+const DUB_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+const DUB_RATE_OPTIONS = [10, 20, 30, 60, 120]; // Requests per minute
+const SCROLL_KEYS = ['ArrowUp', 'ArrowDown', 'PageUp', 'PageDown', 'Home', 'End']; // Space is play/pause, not a scroll
 
 interface DashboardProps {
-  file: File;
+  file: File | null; // null in transcript-only mode (a saved session opened without its media)
+  fingerprint: string;
+  fileName: string;
+  onRelinkMedia: () => void;
   data: ProcessedData;
+  onDataChange: (data: ProcessedData) => void;
   onBack: () => void;
+  onOpenVocabulary: () => void;
+  onOpenStorage: () => void;
+  onOpenSource: (source: VocabularySource) => void; // Library search hit in another cached session
+  initialSeekMs?: number | null; // Set when opened from a vocabulary jump-back link
 }
 
-const parseTime = (timeStr: string): number => {
-    const parts = timeStr.split(':').map(Number);
-    if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    if (parts.length === 2) return parts[0] * 60 + parts[1];
-    return 0;
-};
-
-const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
+const Dashboard: React.FC<DashboardProps> = ({ file, fingerprint, fileName, onRelinkMedia, data, onDataChange, onBack, onOpenVocabulary, onOpenStorage, onOpenSource, initialSeekMs }) => {
   const videoRef = useRef<VideoPlayerRef>(null);
-  const [activeTab, setActiveTab] = useState<'notes' | 'flashcards'>('notes');
+  const [activeTab, setActiveTab] = useState<'notes' | 'flashcards' | 'practice'>('notes');
   const [loadingAudioId, setLoadingAudioId] = useState<string | null>(null);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showMergeModal, setShowMergeModal] = useState(false);
-  const videoUrl = URL.createObjectURL(file);
+  // One object URL per file: re-creating it on every render would reload the video
+  const videoUrl = useMemo(() => file ? URL.createObjectURL(file) : null, [file]);
+  useEffect(() => () => { if (videoUrl) URL.revokeObjectURL(videoUrl); }, [videoUrl]);
+  const baseName = fileName.split('.')[0];
+  // Handlers that save after an await build on this, not on the data they started with
+  const latestDataRef = useRef(data);
+  latestDataRef.current = data;
+  const targetLangCode = getLanguageCode(data.targetLanguage);
+
+  // Translation Tracks State (which two tracks the captions and transcript show)
+  const tracks = useMemo(() => listTracks(data), [data]);
+  const [captionTrackIds, setCaptionTrackIds] = useState<[string, string]>([ORIGINAL_TRACK_ID, targetLangCode]);
+  const [exportTrackIds, setExportTrackIds] = useState<string[]>([ORIGINAL_TRACK_ID, targetLangCode]);
+  const [showTrackMenu, setShowTrackMenu] = useState(false);
+  const [trackStatus, setTrackStatus] = useState<string | null>(null);
+  const findTrack = (id: string): SubtitleTrack => tracks.find(t => t.id === id) || tracks[0];
+  const captionTracks: [SubtitleTrack, SubtitleTrack] = [findTrack(captionTrackIds[0]), findTrack(captionTrackIds[1])];
+
+  // Timeline Editor State
+  const [isEditing, setIsEditing] = useState(false);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+
+  // Click-to-define State
+  const [wordSelection, setWordSelection] = useState<WordSelection | null>(null);
+
+  // Sentence Mining State
+  const [miningSubId, setMiningSubId] = useState<number | null>(null);
+  const [isMining, setIsMining] = useState(false);
+
+  // Line Clip State
+  const [clipLoadingId, setClipLoadingId] = useState<number | null>(null);
+  const [clipsZipProgress, setClipsZipProgress] = useState<number | null>(null);
 
   // Dubbing Generation State
   const [isGeneratingDub, setIsGeneratingDub] = useState(false);
   const [dubProgress, setDubProgress] = useState(0);
+  const [dubReport, setDubReport] = useState<DubResult | null>(null); // Set when some lines still failed
+  const [dubResume, setDubResume] = useState<{ done: number; total: number } | null>(null);
+  const [dubSettings, setDubSettings] = useState<DubSettings>(loadDubSettings);
+  const dubControllerRef = useRef<AbortController | null>(null);
 
   // Merge Script State
   const [copiedScript, setCopiedScript] = useState(false);
 
-  const handleNoteClick = (timestampStr: string) => {
-    const seconds = parseTime(timestampStr);
-    videoRef.current?.seekTo(seconds);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  // Search State
+  const [searchMarkers, setSearchMarkers] = useState<number[]>([]);
+
+  // Playback Sync State (only changes when the line or section changes, not on every tick)
+  const [activeSubIndex, setActiveSubIndex] = useState(-1);
+  const [activeNoteIndex, setActiveNoteIndex] = useState(-1);
+  const [isFollowing, setIsFollowing] = useState(true);
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const rowRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const handleNoteClick = (timestampMs: number) => {
+    videoRef.current?.seekTo(timestampMs / 1000);
+  };
+
+  useEffect(() => {
+    if (initialSeekMs != null) handleNoteClick(initialSeekMs);
+  }, []);
+
+  // Decoded media audio (for clips and practice) is only worth keeping while this file is open
+  useEffect(() => () => releaseDecodedAudio(), [file]);
+
+  const handlePlaybackTime = (seconds: number) => {
+    const timeMs = seconds * 1000;
+    if (isEditing) setCurrentTimeMs(timeMs);
+    setActiveSubIndex(findActiveCueIndex(data.subtitles, timeMs));
+    // The section being played is the latest note at or before the playhead
+    let noteIndex = -1;
+    data.notes.forEach((note, i) => {
+      if (note.timestampMs <= timeMs && (noteIndex === -1 || note.timestampMs >= data.notes[noteIndex].timestampMs)) noteIndex = i;
+    });
+    setActiveNoteIndex(noteIndex);
+  };
+
+  // Keeps the active row in the upper third of the transcript while following
+  useEffect(() => {
+    const container = transcriptRef.current;
+    const row = rowRefs.current.get(data.subtitles[activeSubIndex]?.id);
+    if (!isFollowing || isEditing || !container || !row) return;
+    if (row.offsetTop < container.scrollTop || row.offsetTop + row.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: row.offsetTop - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeSubIndex, isFollowing, isEditing]);
+
+  // Only user input counts as manual scrolling; scroll events also come from following itself
+  const stopFollowing = () => { if (isFollowing) setIsFollowing(false); };
+
+  // Notes are stepped through relative to the playhead; a 1s margin lets repeated presses walk backwards
+  const jumpToNote = (direction: 1 | -1) => {
+    const nowMs = videoRef.current?.getCurrentTimeMs() ?? 0;
+    const times = data.notes.map(n => n.timestampMs).sort((a, b) => a - b);
+    const target = direction === 1
+      ? times.find(t => t > nowMs + 500)
+      : [...times].reverse().find(t => t < nowMs - 1000);
+    if (target !== undefined) handleNoteClick(target);
+  };
+
+  useEffect(() => registerShortcuts({
+    showShortcuts: () => setShowShortcuts(true),
+    prevNote: () => jumpToNote(-1),
+    nextNote: () => jumpToNote(1),
+  }));
+
+  // Edited cues go through onDataChange, which also rewrites the cache entry
+  const handleSubtitlesEdit = (subtitles: Subtitle[]) => {
+    onDataChange({ ...data, subtitles });
+  };
+
+  const handleTranscriptWordSelect = (term: string, anchor: DOMRect, sub: Subtitle, sentence: string) => {
+    videoRef.current?.pause();
+    setWordSelection({ term, sentence, context: sub.textOriginal, timestampMs: sub.startMs, anchor });
+  };
+
+  // Cards picked from captions go through onDataChange too, which saves them and adds them to the review deck
+  const handleAddCard = (card: Flashcard) => {
+    const latest = latestDataRef.current;
+    onDataChange({ ...latest, flashcards: [...latest.flashcards, card] });
+  };
+
+  // The card is still created when the audio can't be cut (e.g. file too large to decode)
+  const handleMineLine = async (sub: Subtitle, ranges: ClozeRange[]) => {
+    setIsMining(true);
+    let media: MediaRef[] | undefined;
+    try {
+        if (file) media = [await createClip(file, fingerprint, sub.startMs, sub.endMs)];
+    } catch (error) {
+        console.warn(`Could not cut audio for line ${sub.id}`, error);
+    }
+    handleAddCard(buildClozeCard(sub, ranges, sub.textTranslated, media));
+    setIsMining(false);
+    setMiningSubId(null);
+  };
+
+  const handleDownloadLineClip = async (sub: Subtitle) => {
+    if (!file) return;
+    setClipLoadingId(sub.id);
+    try {
+        const wav = await extractClipWav(file, sub.startMs, sub.endMs);
+        downloadBlob(wav, `${baseName}_${clipFileName(sub)}`);
+    } catch (error: any) {
+        console.error(`Cutting line ${sub.id} failed`, error);
+        alert(error.message || "Could not cut the audio for this line.");
+    } finally {
+        setClipLoadingId(null);
+    }
+  };
+
+  const handleDownloadClipsZip = async () => {
+    if (!file || clipsZipProgress !== null) return;
+    setShowExportMenu(false);
+    setClipsZipProgress(0);
+    try {
+        const zip = await buildClipsZip(file, data.subtitles, setClipsZipProgress);
+        downloadBlob(zip, `${baseName}_line_clips.zip`);
+    } catch (error: any) {
+        console.error("Building line clips failed", error);
+        alert(error.message || "Could not cut the audio into lines.");
+    } finally {
+        setClipsZipProgress(null);
+    }
+  };
+
+  const handleAttachClip = async (card: Flashcard) => {
+    if (!file) return;
+    const updated = await attachLineClip(file, fingerprint, card, data.subtitles);
+    const latest = latestDataRef.current;
+    onDataChange({ ...latest, flashcards: latest.flashcards.map(c => c.id === card.id ? updated : c) });
   };
 
   const handleTranscriptClick = async (text: string, id: string, lang: string) => {
@@ -50,10 +233,28 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
     }
   };
 
+  const handleAddTrack = async (languageName: string) => {
+    setShowTrackMenu(false);
+    setTrackStatus(`Translating into ${languageName}...`);
+    try {
+        const updated = await addTranslationTrack(data, languageName, (status, pct) => {
+            setTrackStatus(pct !== undefined ? `${status} ${pct}%` : status);
+        });
+        onDataChange(updated);
+        setCaptionTrackIds([captionTrackIds[0], getLanguageCode(languageName)]);
+    } catch (error: any) {
+        console.error("Adding translation track failed", error);
+        alert(error.message || "Could not add translation track.");
+    } finally {
+        setTrackStatus(null);
+    }
+  };
+
   const handleDownloadSource = () => {
+    if (!videoUrl) return;
     const a = document.createElement('a');
     a.href = videoUrl;
-    a.download = file.name;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -62,89 +263,62 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
 
   const handleDownloadDubbedAudio = async () => {
       if (isGeneratingDub) return;
+      const controller = new AbortController();
+      dubControllerRef.current = controller;
       setIsGeneratingDub(true);
       setDubProgress(0);
+      setDubReport(null);
 
       try {
-          const audioContext = new AudioContext();
-          const subtitles = data.subtitles;
-          const totalDuration = subtitles.length > 0 ? parseTime(subtitles[subtitles.length - 1].endTime) + 10 : 60;
-          
-          const sampleRate = 24000;
-          const offlineCtx = new OfflineAudioContext(1, sampleRate * totalDuration, sampleRate);
-          
-          let processedCount = 0;
-          
-          for (const sub of subtitles) {
-              const startTime = parseTime(sub.startTime);
-              try {
-                  const buffer = await getTTSAudio(sub.textVietnamese, 'Kore', audioContext);
-                  const source = offlineCtx.createBufferSource();
-                  source.buffer = buffer;
-                  source.connect(offlineCtx.destination);
-                  source.start(startTime);
-              } catch (e) {
-                  console.warn(`Failed to generate audio for line ${sub.id}`, e);
-              }
-              
-              processedCount++;
-              setDubProgress(Math.round((processedCount / subtitles.length) * 100));
+          const result = await generateDubTrack({
+              fingerprint,
+              subtitles: data.subtitles,
+              voice: loadVoicePreference(),
+              language: targetLangCode,
+              signal: controller.signal,
+              onProgress: (done, total) => setDubProgress(Math.round((done / total) * 100)),
+          });
+          if (result.failures.length === 0) downloadBlob(result.blob, `${baseName}_dubbed_audio.wav`);
+          else setDubReport(result);
+      } catch (error: any) {
+          // Stopping keeps the finished lines for the next run
+          if (error.message !== CANCELLED_MESSAGE) {
+              console.error("Dubbing generation failed", error);
+              alert("Could not generate dubbed audio. Check API quota or video length.");
           }
-
-          const renderedBuffer = await offlineCtx.startRendering();
-          const wavBlob = audioBufferToWav(renderedBuffer);
-          const url = URL.createObjectURL(wavBlob);
-          
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `${file.name.split('.')[0]}_dubbed_audio.wav`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-
-      } catch (error) {
-          console.error("Dubbing generation failed", error);
-          alert("Could not generate dubbed audio. Check API quota or video length.");
       } finally {
+          dubControllerRef.current = null;
           setIsGeneratingDub(false);
           setDubProgress(0);
+          refreshDubResume();
       }
   };
 
-  const exportSRT = (type: 'bilingual' | 'original' | 'vietnamese') => {
-    let content = '';
-    data.subtitles.forEach((sub, index) => {
-        const start = sub.startTime.includes(',') ? sub.startTime : `${sub.startTime},000`;
-        const end = sub.endTime.includes(',') ? sub.endTime : `${sub.endTime},000`;
+  const refreshDubResume = () => {
+      getDubProgress(fingerprint, data.subtitles, loadVoicePreference(), targetLangCode).then(setDubResume);
+  };
 
-        content += `${index + 1}\n`;
-        content += `${start} --> ${end}\n`;
-        
-        if (type === 'bilingual') {
-            content += `${sub.textOriginal}\n`;
-            content += `${sub.textVietnamese}\n\n`;
-        } else if (type === 'original') {
-            content += `${sub.textOriginal}\n\n`;
-        } else {
-            content += `${sub.textVietnamese}\n\n`;
-        }
-    });
+  const updateDubSettings = (settings: DubSettings) => {
+      setDubSettings(settings);
+      saveDubSettings(settings);
+  };
 
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${file.name.split('.')[0]}_${type}.srt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+  // The voice may have changed in the player since the last run
+  useEffect(() => {
+      if (showExportMenu || showMergeModal) refreshDubResume();
+  }, [showExportMenu, showMergeModal]);
+
+  const handleExport = (format: ExportFormat) => {
+    const selected = tracks.filter(t => exportTrackIds.includes(t.id));
+    if (format !== 'json' && selected.length === 0) return;
+    downloadExport(format, data, selected, baseName);
     setShowExportMenu(false);
   };
 
   const generateFFmpegCommand = () => {
-      const videoName = file.name;
-      const audioName = `${file.name.split('.')[0]}_dubbed_audio.wav`;
-      const outputName = `${file.name.split('.')[0]}_final.mp4`;
+      const videoName = fileName;
+      const audioName = `${baseName}_dubbed_audio.wav`;
+      const outputName = `${baseName}_final.mp4`;
       
       return `ffmpeg -i "${videoName}" -i "${audioName}" -c:v copy -c:a aac -map 0:v:0 -map 1:a:0 -shortest "${outputName}"`;
   };
@@ -157,6 +331,66 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
 
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
+      {/* WORD DEFINITION POPOVER */}
+      {wordSelection && (
+          <DefinitionPopover
+              selection={wordSelection}
+              data={data}
+              onAdd={handleAddCard}
+              onClose={() => setWordSelection(null)}
+          />
+      )}
+
+      {showShortcuts && <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />}
+
+      {/* DUB REPORT (lines that still failed after retries) */}
+      {dubReport && (
+          <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+              <div className="bg-white rounded-2xl max-w-2xl w-full shadow-2xl overflow-hidden animate-fade-in-up">
+                  <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+                      <h3 className="font-bold text-lg text-gray-800 flex items-center gap-2">
+                          <AlertTriangle className="w-5 h-5 text-amber-500" />
+                          {dubReport.failures.length} line{dubReport.failures.length === 1 ? '' : 's'} could not be dubbed
+                      </h3>
+                      <button onClick={() => setDubReport(null)} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+                          <X className="w-5 h-5 text-gray-500" />
+                      </button>
+                  </div>
+
+                  <div className="p-6 space-y-4">
+                      <p className="text-sm text-gray-600">
+                          The other lines are saved. Retrying only synthesizes these; downloading now leaves them silent.
+                      </p>
+                      <div className="max-h-72 overflow-y-auto custom-scrollbar border border-gray-100 rounded-xl divide-y divide-gray-100">
+                          {dubReport.failures.map(({ sub, error }) => (
+                              <div key={sub.id} className="px-4 py-2 text-sm">
+                                  <div className="flex gap-3">
+                                      <span className="font-mono text-xs text-gray-400 pt-0.5 shrink-0">{formatTime(sub.startMs)}</span>
+                                      <span className="text-gray-800">{sub.textTranslated}</span>
+                                  </div>
+                                  <p className="text-xs text-red-500 truncate pl-14" title={error}>{error}</p>
+                              </div>
+                          ))}
+                      </div>
+                      <div className="flex gap-3">
+                          <button
+                              onClick={() => { downloadBlob(dubReport.blob, `${baseName}_dubbed_audio.wav`); setDubReport(null); }}
+                              className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-800 rounded-xl font-bold text-sm transition-colors flex items-center justify-center gap-2"
+                          >
+                              <Download className="w-4 h-4" /> Download with Gaps
+                          </button>
+                          <button
+                              onClick={handleDownloadDubbedAudio}
+                              className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold text-sm transition-colors flex items-center justify-center gap-2"
+                          >
+                              <RotateCcw className="w-4 h-4" /> Retry Failed
+                          </button>
+                      </div>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* MERGE GUIDE MODAL */}
       {showMergeModal && (
           <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
@@ -222,7 +456,7 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
                                 className="flex-1 py-3 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-xl font-bold text-sm transition-colors flex items-center justify-center gap-2"
                             >
                                 {isGeneratingDub ? <Loader2 className="w-4 h-4 animate-spin" /> : <Music className="w-4 h-4" />} 
-                                2. Get Audio
+                                2. {dubResume ? 'Resume' : 'Get'} Audio
                             </button>
                       </div>
                   </div>
@@ -236,17 +470,61 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
             <ArrowLeft className="w-5 h-5" />
           </button>
           <div>
-            <h1 className="text-lg font-bold text-gray-800 leading-tight max-w-md truncate" title={file.name}>{file.name}</h1>
-            <p className="text-xs text-gray-500">Bilingual Study Mode (Local TTS)</p>
+            <h1 className="text-lg font-bold text-gray-800 leading-tight max-w-md truncate" title={fileName}>{fileName}</h1>
+            <p className="text-xs text-gray-500">Bilingual Study Mode • {data.originalLanguage === 'Auto Detect' ? 'Original' : data.originalLanguage} → {data.targetLanguage}</p>
           </div>
         </div>
+
+        <div className="hidden md:block flex-1 max-w-md mx-6">
+            <SearchBar
+                data={data}
+                fingerprint={fingerprint}
+                onSeek={handleNoteClick}
+                onHitsChange={setSearchMarkers}
+                onOpenSource={onOpenSource}
+            />
+        </div>
         
         <div className="flex items-center gap-3">
+            <button
+                onClick={onOpenVocabulary}
+                className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                title="My Vocabulary"
+            >
+                <BookOpen className="w-4 h-4" />
+                <span className="hidden sm:inline">Vocabulary</span>
+            </button>
+
+            <button
+                onClick={onOpenStorage}
+                className="p-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title="Storage"
+            >
+                <HardDrive className="w-4 h-4" />
+            </button>
+
+            <button
+                onClick={() => setShowShortcuts(true)}
+                className="p-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                title={`Keyboard shortcuts (${formatShortcutKey(getShortcutKey('showShortcuts'))})`}
+            >
+                <Keyboard className="w-4 h-4" />
+            </button>
+
             {/* Export Dropdown */}
             <div className="relative">
+                {isGeneratingDub && (
+                    <button
+                        onClick={() => dubControllerRef.current?.abort()}
+                        className="absolute -top-2 -right-2 p-0.5 bg-white border border-gray-300 rounded-full text-gray-500 hover:text-red-600 shadow-sm z-10"
+                        title="Stop (finished lines are kept for resuming)"
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                )}
                 <button 
                     onClick={() => setShowExportMenu(!showExportMenu)}
-                    disabled={isGeneratingDub}
+                    disabled={isGeneratingDub || clipsZipProgress !== null}
                     className="flex items-center gap-2 px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
                 >
                     {isGeneratingDub ? (
@@ -254,6 +532,11 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
                             <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
                             <span>Generating Audio {dubProgress}%</span>
                         </>
+                    ) : clipsZipProgress !== null ? (
+                        <>
+                            <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+                            <span>Cutting Clips {clipsZipProgress}%</span>
+                        </>
                     ) : (
                         <>
                             <Download className="w-4 h-4" />
@@ -269,11 +552,33 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
                             <div className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider bg-gray-50/50">
                                 Subtitles
                             </div>
-                            <button onClick={() => exportSRT('bilingual')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50 hover:text-indigo-600">
-                                Bilingual (.srt)
-                            </button>
-                            <button onClick={() => exportSRT('vietnamese')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50 hover:text-indigo-600">
-                                Vietnamese Only (.srt)
+                            {tracks.map(track => (
+                                <label key={track.id} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50 flex items-center gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={exportTrackIds.includes(track.id)}
+                                        onChange={() => setExportTrackIds(exportTrackIds.includes(track.id)
+                                            ? exportTrackIds.filter(id => id !== track.id)
+                                            : tracks.filter(t => t.id === track.id || exportTrackIds.includes(t.id)).map(t => t.id))}
+                                        className="accent-indigo-600"
+                                    />
+                                    {track.label}
+                                </label>
+                            ))}
+                            {EXPORT_FORMATS.filter(f => f.id !== 'json').map(format => (
+                                <button
+                                    key={format.id}
+                                    onClick={() => handleExport(format.id)}
+                                    disabled={exportTrackIds.length === 0}
+                                    className="w-full text-left px-4 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 flex items-center gap-2 disabled:opacity-40"
+                                >
+                                    <FileText className="w-4 h-4" />
+                                    {format.label}
+                                </button>
+                            ))}
+                            <button onClick={() => handleExport('json')} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2">
+                                <FileJson className="w-4 h-4" />
+                                Full Data (.json)
                             </button>
 
                             <div className="border-t border-gray-100 my-1"></div>
@@ -283,9 +588,35 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
                             </div>
                             <button onClick={handleDownloadDubbedAudio} className="w-full text-left px-4 py-2 text-sm text-indigo-700 bg-indigo-50/30 hover:bg-indigo-100 flex items-center gap-2">
                                 <Music className="w-4 h-4" />
-                                Download Audio Only (.wav)
+                                {dubResume ? `Resume Audio Only (${dubResume.done}/${dubResume.total})` : 'Download Audio Only (.wav)'}
                             </button>
-                            <button onClick={handleDownloadSource} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2">
+                            <div className="px-4 pb-2 pt-1 flex items-center gap-3 text-[11px] text-gray-500 bg-indigo-50/30">
+                                <label className="flex items-center gap-1">
+                                    Parallel
+                                    <select
+                                        value={dubSettings.concurrency}
+                                        onChange={(e) => updateDubSettings({ ...dubSettings, concurrency: Number(e.target.value) })}
+                                        className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                                    >
+                                        {DUB_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Per min
+                                    <select
+                                        value={dubSettings.requestsPerMinute}
+                                        onChange={(e) => updateDubSettings({ ...dubSettings, requestsPerMinute: Number(e.target.value) })}
+                                        className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                                    >
+                                        {DUB_RATE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </label>
+                            </div>
+                            <button onClick={handleDownloadClipsZip} disabled={!file} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2 disabled:opacity-40">
+                                <Archive className="w-4 h-4" />
+                                Original Audio per Line (.zip)
+                            </button>
+                            <button onClick={handleDownloadSource} disabled={!file} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center gap-2 disabled:opacity-40">
                                 <FileVideo className="w-4 h-4" />
                                 Download Source Video
                             </button>
@@ -319,6 +650,12 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
                 >
                     Flashcards
                 </button>
+                <button 
+                    onClick={() => setActiveTab('practice')}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${activeTab === 'practice' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                    Practice
+                </button>
             </div>
         </div>
       </header>
@@ -326,64 +663,198 @@ const Dashboard: React.FC<DashboardProps> = ({ file, data, onBack }) => {
       <main className="flex-1 p-4 md:p-6 max-w-7xl mx-auto w-full grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column: Video Player */}
         <div className="lg:col-span-2 space-y-4">
+          {videoUrl ? (
           <VideoPlayer 
             ref={videoRef} 
             src={videoUrl} 
             subtitles={data.subtitles} 
+            captionTracks={captionTracks}
+            targetLangCode={targetLangCode}
+            onTimeUpdate={handlePlaybackTime}
+            onWordSelect={setWordSelection}
+            markers={searchMarkers}
           />
+          ) : (
+            <div className="aspect-video bg-gray-900 rounded-xl border border-gray-800 flex flex-col items-center justify-center gap-3 text-center p-6">
+                <FileVideo className="w-10 h-10 text-gray-600" />
+                <div>
+                    <p className="text-white font-medium">Transcript-only mode</p>
+                    <p className="text-sm text-gray-400 mt-1">The media for this session isn't loaded. Re-link "{fileName}" to play it and cut line audio.</p>
+                </div>
+                <button onClick={onRelinkMedia} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white text-gray-900 text-sm font-medium hover:bg-gray-200">
+                    <Link2 className="w-4 h-4" /> Re-link Media File
+                </button>
+            </div>
+          )}
           
           <div className="bg-white rounded-xl p-4 shadow-sm border border-gray-200">
              <div className="flex items-center justify-between mb-3">
                 <h3 className="font-bold text-gray-800 flex items-center gap-2">
-                    <FileText className="w-4 h-4 text-indigo-600" />
-                    Transcript Preview
+                    {isEditing ? <PencilLine className="w-4 h-4 text-indigo-600" /> : <FileText className="w-4 h-4 text-indigo-600" />}
+                    {isEditing ? 'Timeline Editor' : 'Transcript Preview'}
                 </h3>
-             </div>
-             <div className="h-64 overflow-y-auto custom-scrollbar text-sm space-y-1 pr-2">
-                {data.subtitles.map(sub => (
-                    <div key={sub.id} className="grid grid-cols-12 gap-3 hover:bg-indigo-50/50 p-3 rounded-lg transition-colors group border border-transparent hover:border-indigo-100">
-                        <span 
-                            className="col-span-2 text-gray-400 font-mono text-xs cursor-pointer hover:text-indigo-600 hover:underline pt-1"
-                            onClick={() => handleNoteClick(sub.startTime)}
+                <div className="flex items-center gap-2">
+                    {!isEditing && (
+                        <button
+                            onClick={() => setIsFollowing(!isFollowing)}
+                            className={`flex items-center gap-1 text-xs px-2 py-1 rounded-md border transition-colors ${isFollowing ? 'border-indigo-200 bg-indigo-50 text-indigo-600' : 'border-gray-200 text-gray-500 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                            title="Scroll the transcript along with playback"
                         >
-                            {sub.startTime}
-                        </span>
-                        <div className="col-span-10 flex flex-col gap-1">
-                            <div className="flex items-start justify-between">
-                                <p className="text-gray-900 font-medium leading-relaxed">{sub.textOriginal}</p>
-                                <button 
-                                    onClick={() => handleTranscriptClick(sub.textOriginal, `${sub.id}-orig`, 'en-US')}
-                                    disabled={loadingAudioId !== null}
-                                    className="opacity-0 group-hover:opacity-100 p-1.5 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-white transition-all shadow-sm"
-                                    title="Play Original (Local)"
+                            <LocateFixed className="w-3 h-3" /> Follow
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setIsEditing(!isEditing)}
+                        disabled={trackStatus !== null}
+                        className={`flex items-center gap-1 text-xs px-2 py-1 rounded-md border transition-colors disabled:opacity-40 ${isEditing ? 'border-indigo-600 bg-indigo-600 text-white hover:bg-indigo-700' : 'border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600'}`}
+                    >
+                        <PencilLine className="w-3 h-3" /> {isEditing ? 'Done' : 'Edit'}
+                    </button>
+                    {trackStatus ? (
+                        <span className="flex items-center gap-1 text-xs text-indigo-600"><Loader2 className="w-3 h-3 animate-spin" />{trackStatus}</span>
+                    ) : (
+                        <>
+                            {captionTrackIds.map((trackId, slot) => (
+                                <select
+                                    key={slot}
+                                    value={trackId}
+                                    onChange={(e) => setCaptionTrackIds(slot === 0 ? [e.target.value, captionTrackIds[1]] : [captionTrackIds[0], e.target.value])}
+                                    className="text-xs border border-gray-200 rounded-md px-2 py-1 bg-white text-gray-700"
+                                    title={slot === 0 ? 'Top track' : 'Bottom track'}
                                 >
-                                    {loadingAudioId === `${sub.id}-orig` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Volume2 className="w-3.5 h-3.5" />}
-                                </button>
-                            </div>
-                            <div className="flex items-start justify-between">
-                                <p className="text-indigo-600 text-sm italic leading-relaxed">{sub.textVietnamese}</p>
-                                <button 
-                                    onClick={() => handleTranscriptClick(sub.textVietnamese, `${sub.id}-vn`, 'vi-VN')}
-                                    disabled={loadingAudioId !== null}
-                                    className="opacity-0 group-hover:opacity-100 p-1.5 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-white transition-all shadow-sm"
-                                    title="Đọc tiếng Việt (Local)"
+                                    {tracks.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                                </select>
+                            ))}
+                            <div className="relative">
+                                <button
+                                    onClick={() => setShowTrackMenu(!showTrackMenu)}
+                                    className="flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600"
+                                    title="Add translation track"
                                 >
-                                    {loadingAudioId === `${sub.id}-vn` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Volume2 className="w-3.5 h-3.5" />}
+                                    <Plus className="w-3 h-3" /> Track
                                 </button>
+                                {showTrackMenu && (
+                                    <>
+                                        <div className="fixed inset-0 z-10" onClick={() => setShowTrackMenu(false)}></div>
+                                        <div className="absolute right-0 mt-1 w-40 bg-white rounded-lg shadow-xl border border-gray-100 z-20 py-1">
+                                            {LANGUAGES.filter(l => !tracks.some(t => t.kind !== 'original' && t.id === l.code)).map(l => (
+                                                <button key={l.code} onClick={() => handleAddTrack(l.name)} className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-indigo-50 hover:text-indigo-600">
+                                                    {l.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </>
+                                )}
                             </div>
+                        </>
+                    )}
+                </div>
+             </div>
+             {isEditing ? (
+                <SubtitleEditor
+                    file={file}
+                    subtitles={data.subtitles}
+                    tracks={captionTracks}
+                    currentTimeMs={currentTimeMs}
+                    onSeek={(ms) => videoRef.current?.seekTo(ms / 1000)}
+                    onChange={handleSubtitlesEdit}
+                />
+             ) : (
+             <div
+                ref={transcriptRef}
+                tabIndex={-1} // Focusable after a click, so keyboard scrolling reaches onKeyDown
+                onWheel={stopFollowing}
+                onTouchMove={stopFollowing}
+                onKeyDown={(e) => { if (SCROLL_KEYS.includes(e.key)) stopFollowing(); }}
+                onPointerDown={(e) => { if (e.target === e.currentTarget) stopFollowing(); }} // Scrollbar drag
+                className="relative h-64 overflow-y-auto custom-scrollbar text-sm space-y-1 pr-2 outline-none"
+             >
+                {data.subtitles.map((sub, index) => (
+                    <div
+                        key={sub.id}
+                        ref={(el) => { if (el) rowRefs.current.set(sub.id, el); else rowRefs.current.delete(sub.id); }}
+                        className={`grid grid-cols-12 gap-3 p-3 rounded-lg transition-colors group border ${index === activeSubIndex ? 'bg-indigo-50 border-indigo-200' : 'border-transparent hover:bg-indigo-50/50 hover:border-indigo-100'}`}
+                    >
+                        <div className="col-span-2 flex flex-wrap items-start gap-1 pt-1">
+                            <span 
+                                className="w-full text-gray-400 font-mono text-xs cursor-pointer hover:text-indigo-600 hover:underline"
+                                onClick={() => handleNoteClick(sub.startMs)}
+                            >
+                                {formatTime(sub.startMs)}
+                            </span>
+                            <button
+                                onClick={() => setMiningSubId(miningSubId === sub.id ? null : sub.id)}
+                                disabled={isMining}
+                                className={`p-1 rounded-md transition-all ${miningSubId === sub.id ? 'text-amber-600 bg-amber-50' : 'opacity-0 group-hover:opacity-100 text-gray-400 hover:text-amber-600 hover:bg-amber-50'}`}
+                                title="Mine this line (cloze card)"
+                            >
+                                <Pickaxe className="w-3.5 h-3.5" />
+                            </button>
+                            {file && <button
+                                onClick={() => handleDownloadLineClip(sub)}
+                                disabled={clipLoadingId !== null}
+                                className="p-1 rounded-md opacity-0 group-hover:opacity-100 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 transition-all"
+                                title="Download original audio of this line (.wav)"
+                            >
+                                {clipLoadingId === sub.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileAudio className="w-3.5 h-3.5" />}
+                            </button>}
+                        </div>
+                        <div className="col-span-10 flex flex-col gap-1">
+                            {captionTracks.map((track, slot) => {
+                                const text = getTrackText(sub, track);
+                                const audioId = `${sub.id}-${slot}`;
+                                return (
+                                    <div key={slot} className="flex items-start justify-between">
+                                        <p className={slot === 0 ? 'text-gray-900 font-medium leading-relaxed' : 'text-indigo-600 text-sm italic leading-relaxed'}>
+                                            <InteractiveText text={text} onSelect={(term, anchor) => handleTranscriptWordSelect(term, anchor, sub, text)} />
+                                        </p>
+                                        <button 
+                                            onClick={() => handleTranscriptClick(text, audioId, track.langCode)}
+                                            disabled={loadingAudioId !== null || !text}
+                                            className="opacity-0 group-hover:opacity-100 p-1.5 rounded-full text-gray-400 hover:text-indigo-600 hover:bg-white transition-all shadow-sm"
+                                            title={`Play ${track.label} (Local)`}
+                                        >
+                                            {loadingAudioId === audioId ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Volume2 className="w-3.5 h-3.5" />}
+                                        </button>
+                                    </div>
+                                );
+                            })}
                         </div>
+                        {miningSubId === sub.id && (
+                            <ClozeBuilder
+                                subtitle={sub}
+                                isSaving={isMining}
+                                onCreate={(ranges) => handleMineLine(sub, ranges)}
+                                onCancel={() => setMiningSubId(null)}
+                            />
+                        )}
                     </div>
                 ))}
              </div>
+             )}
           </div>
         </div>
 
         {/* Right Column: Tools */}
         <div className="lg:col-span-1 h-[600px] lg:h-auto lg:min-h-[calc(100vh-8rem)] sticky top-24">
             {activeTab === 'notes' ? (
-                <NotesPanel notes={data.notes} onNoteClick={handleNoteClick} />
+                <NotesPanel notes={data.notes} onNoteClick={handleNoteClick} activeIndex={activeNoteIndex} />
+            ) : activeTab === 'flashcards' ? (
+                <FlashcardsPanel cards={data.flashcards} targetLanguage={data.targetLanguage} originalLanguage={data.originalLanguage} sourceFileName={fileName} onAttachClip={file ? handleAttachClip : undefined} />
+            ) : !file ? (
+                <div className="h-full bg-white rounded-xl shadow border border-gray-200 p-8 flex flex-col items-center justify-center text-gray-400 gap-4 text-center">
+                    <Link2 className="w-12 h-12 opacity-50" />
+                    <p>Practice needs the media file.</p>
+                    <button onClick={onRelinkMedia} className="text-sm text-indigo-600 hover:underline">Re-link media file</button>
+                </div>
             ) : (
-                <FlashcardsPanel cards={data.flashcards} />
+                <PracticePanel
+                    file={file}
+                    fingerprint={fingerprint}
+                    subtitles={data.subtitles}
+                    originalLanguage={data.originalLanguage}
+                    onPlayLine={(sub) => videoRef.current?.playSegment(sub.startMs, sub.endMs) ?? Promise.resolve()}
+                />
             )}
         </div>
       </main>
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Flashcard, ProcessedData } from '../types';
+import { TermDefinition } from '../services/aiProvider';
+import { defineTerm } from '../services/processingService';
+import { getCardKey } from '../services/srsService';
+import { formatTime } from '../services/timeUtils';
+import { Loader2, Plus, Check, X, AlertTriangle } from 'lucide-react';
+
+// What the learner picked in a caption or transcript line
+export interface WordSelection {
+  term: string;
+  sentence: string;        // The line the term was picked from, sent to the AI for context
+  context: string;         // Original-language text of the cue, stored on the card
+  timestampMs: number;
+  anchor: DOMRect;
+}
+
+interface DefinitionPopoverProps {
+  selection: WordSelection;
+  data: ProcessedData;
+  onAdd: (card: Flashcard) => void;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 320;
+const MARGIN = 8;
+
+// Repeated clicks on the same word in the same line don't hit the provider again
+const definitionCache = new Map<string, TermDefinition>();
+
+const DefinitionPopover: React.FC<DefinitionPopoverProps> = ({ selection, data, onAdd, onClose }) => {
+  const { term, sentence, context, timestampMs, anchor } = selection;
+  const cacheKey = `${data.targetLanguage}::${term.toLowerCase()}::${sentence}`;
+  const [definition, setDefinition] = useState<TermDefinition | null>(definitionCache.get(cacheKey) || null);
+  const [error, setError] = useState<string | null>(null);
+
+  const cardKey = getCardKey({ id: '', term, definition: '', context: '' }, data.targetLanguage);
+  const inDeck = data.flashcards.some(c => getCardKey(c, data.targetLanguage) === cardKey);
+
+  useEffect(() => {
+    const cached = definitionCache.get(cacheKey);
+    setDefinition(cached || null);
+    setError(null);
+    if (cached) return;
+
+    const controller = new AbortController();
+    defineTerm(data, term, sentence, controller.signal)
+      .then(result => {
+        definitionCache.set(cacheKey, result);
+        setDefinition(result);
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setError(err.message || "Could not look up this word.");
+      });
+    return () => controller.abort();
+  }, [cacheKey]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const handleAdd = () => {
+    if (!definition || inDeck) return;
+    onAdd({
+      id: `pick-${Date.now()}`,
+      term,
+      definition: definition.definition ? `${definition.translation} — ${definition.definition}` : definition.translation,
+      context,
+      sourceMs: timestampMs,
+    });
+  };
+
+  // Above the word when there is room, otherwise below it
+  const left = Math.min(Math.max(MARGIN, anchor.left + anchor.width / 2 - POPOVER_WIDTH / 2), window.innerWidth - POPOVER_WIDTH - MARGIN);
+  const placeAbove = anchor.top > 240;
+  const position: React.CSSProperties = placeAbove
+    ? { left, bottom: window.innerHeight - anchor.top + MARGIN, width: POPOVER_WIDTH }
+    : { left, top: anchor.bottom + MARGIN, width: POPOVER_WIDTH };
+
+  // In fullscreen only the fullscreen element is visible, so the popover has to live inside it
+  return createPortal(
+    <>
+      <div className="fixed inset-0 z-[90]" onClick={onClose}></div>
+      <div className="fixed z-[91] bg-white rounded-xl shadow-2xl border border-gray-200 p-4 text-left" style={position}>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="min-w-0">
+            <h4 className="font-bold text-gray-900 text-lg leading-tight break-words">{term}</h4>
+            {definition?.partOfSpeech && <span className="text-[10px] uppercase tracking-wider text-gray-400">{definition.partOfSpeech}</span>}
+          </div>
+          <button onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error ? (
+          <p className="flex items-start gap-2 text-sm text-red-500"><AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />{error}</p>
+        ) : !definition ? (
+          <p className="flex items-center gap-2 text-sm text-gray-400"><Loader2 className="w-4 h-4 animate-spin" />Looking up...</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-indigo-600 font-semibold">{definition.translation}</p>
+            {definition.definition && <p className="text-sm text-gray-600">{definition.definition}</p>}
+          </div>
+        )}
+
+        <p className="mt-3 text-xs text-gray-400 italic line-clamp-2">"{sentence}"</p>
+
+        <div className="mt-3 flex items-center justify-between">
+          <span className="text-xs font-mono text-gray-400">{formatTime(timestampMs)}</span>
+          <button
+            onClick={handleAdd}
+            disabled={!definition || inDeck}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${inDeck ? 'bg-emerald-50 text-emerald-600' : 'bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50'}`}
+          >
+            {inDeck ? <><Check className="w-4 h-4" /> In deck</> : <><Plus className="w-4 h-4" /> Add to deck</>}
+          </button>
+        </div>
+      </div>
+    </>,
+    document.fullscreenElement || document.body
+  );
+};
+
+export default DefinitionPopover;
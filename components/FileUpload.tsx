@@ -1,10 +1,21 @@
 import React, { useState, ChangeEvent, useEffect } from 'react';
-import { Upload, FileVideo, FileAudio, CheckCircle2, AlertCircle, Sparkles, XCircle, Mic2, BookOpen, Layers, ArrowRight, History, Zap, Key } from 'lucide-react';
-import { ProcessingOptions, ProcessedData } from '../types';
-import { getFromCache } from '../services/cacheService';
+import { Upload, FileVideo, FileAudio, CheckCircle2, AlertCircle, Sparkles, XCircle, Mic2, BookOpen, Layers, ArrowRight, History, Zap, Key, Languages, Captions } from 'lucide-react';
+import { ProcessingOptions, ProviderId, Subtitle } from '../types';
+import { CacheMatch, CacheMatchStrategy, findCachedSession } from '../services/cacheService';
+import { getProvider, PROVIDER_LIST } from '../services/aiProvider';
+import { loadProviderSettings, saveProviderSettings, ProviderSettings } from '../services/providerSettings';
+import { LANGUAGES, DEFAULT_TARGET_LANGUAGE } from '../services/languages';
+import { isSubtitleFile, parseSubtitleFile, SUBTITLE_EXTENSIONS } from '../services/subtitleParser';
+
+// Which lookup found the saved session (see findCachedSession)
+const MATCH_LABELS: Record<CacheMatchStrategy, string> = {
+  'content': 'matched by content',
+  'legacy': 'matched by old fingerprint, upgraded',
+  'name-duration': 'matched by name + duration',
+};
 
 interface FileUploadProps {
-  onStart: (file: File, options: ProcessingOptions, cachedData?: ProcessedData) => void;
+  onStart: (file: File, options: ProcessingOptions, cached?: CacheMatch) => void;
   onCancel?: () => void;
   isLoading: boolean;
   statusMessage?: string | null;
@@ -14,18 +25,33 @@ interface FileUploadProps {
 const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, statusMessage, progress = 0 }) => {
   const [file, setFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [cachedData, setCachedData] = useState<ProcessedData | null>(null);
+  const [cachedData, setCachedData] = useState<CacheMatch | null>(null);
   const [checkingCache, setCheckingCache] = useState(false);
+
+  // Sidecar subtitle file (skips transcription)
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+  const [importedSubtitles, setImportedSubtitles] = useState<Subtitle[] | null>(null);
+  const [subtitleError, setSubtitleError] = useState<string | null>(null);
   
-  // API Key State
+  // API Key & Provider State
   const [apiKey, setApiKey] = useState<string>('');
   const [showKeyModal, setShowKeyModal] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
 
-  const [options, setOptions] = useState<ProcessingOptions>({
+  const [options, setOptions] = useState<ProcessingOptions>(() => ({
     generateNotes: true,
     generateFlashcards: true,
-    originalLanguage: 'Auto Detect'
-  });
+    originalLanguage: 'Auto Detect',
+    targetLanguage: localStorage.getItem('target_language') || DEFAULT_TARGET_LANGUAGE,
+    extraTargetLanguages: [],
+    provider: providerSettings.provider,
+    model: providerSettings.model || undefined
+  }));
+
+  const activeProvider = getProvider(options.provider);
+  const isProviderReady = activeProvider.requiresApiKey
+    ? !!apiKey
+    : options.provider !== 'openai-compatible' || !!providerSettings.baseUrl;
 
   // Load API key from local storage on mount
   useEffect(() => {
@@ -34,9 +60,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
     else if (process.env.API_KEY) setApiKey(process.env.API_KEY);
   }, []);
 
-  const saveApiKey = (key: string) => {
-    setApiKey(key);
-    localStorage.setItem('gemini_api_key', key);
+  const saveSettings = () => {
+    localStorage.setItem('gemini_api_key', apiKey);
+    saveProviderSettings(providerSettings);
+    setOptions({ ...options, provider: providerSettings.provider, model: providerSettings.model || undefined });
     setShowKeyModal(false);
   };
 
@@ -45,7 +72,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
     const checkFileCache = async () => {
         if (file) {
             setCheckingCache(true);
-            const cached = await getFromCache(file);
+            const cached = await findCachedSession(file);
             if (cached) {
                 setCachedData(cached);
             } else {
@@ -70,25 +97,59 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
     }
   };
 
+  const loadSubtitleFile = async (selectedFile: File) => {
+    setSubtitleFile(selectedFile);
+    setSubtitleError(null);
+    try {
+      setImportedSubtitles(await parseSubtitleFile(selectedFile));
+    } catch (err: any) {
+      setImportedSubtitles(null);
+      setSubtitleError(err.message || "Could not read subtitle file.");
+    }
+  };
+
+  const clearSubtitleFile = () => {
+    setSubtitleFile(null);
+    setImportedSubtitles(null);
+    setSubtitleError(null);
+  };
+
+  // Media and sidecar subtitles may arrive together (multi-select or drag of both)
+  const handleFiles = (files: FileList) => {
+    Array.from(files).forEach(selected => {
+      if (isSubtitleFile(selected)) loadSubtitleFile(selected);
+      else validateAndSetFile(selected);
+    });
+  };
+
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) validateAndSetFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) handleFiles(e.target.files);
+  };
+
+  const handleSubtitleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) loadSubtitleFile(e.target.files[0]);
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) validateAndSetFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) handleFiles(e.dataTransfer.files);
   };
 
   const handleDragOver = (e: React.DragEvent) => { e.preventDefault(); };
 
   const handleSubmit = () => {
-    if (!apiKey && !cachedData) {
+    // A name + duration match may be a different recording that happens to share both
+    const cached = cachedData?.strategy === 'name-duration' && !confirm(
+        `"${file?.name}" does not have the same contents as the saved session with this name and length. Open the saved transcript anyway?\n\nCancel processes the file from scratch.`
+    ) ? null : cachedData;
+
+    if (!isProviderReady && !cached) {
         setShowKeyModal(true);
         return;
     }
 
     if (file) {
-        onStart(file, options, cachedData || undefined);
+        onStart(file, { ...options, importedSubtitles: importedSubtitles || undefined }, cached || undefined);
     }
   };
 
@@ -104,49 +165,93 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
         <button 
             onClick={() => setShowKeyModal(true)}
             className="absolute top-6 right-6 p-2 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors z-20 flex items-center gap-2"
-            title="Configure API Key"
+            title="Configure AI Provider"
         >
-            <span className={`w-2 h-2 rounded-full ${apiKey ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></span>
+            <span className="text-xs font-mono hidden sm:inline">{activeProvider.label}</span>
+            <span className={`w-2 h-2 rounded-full ${isProviderReady ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></span>
             <Key className="w-5 h-5" />
         </button>
 
-        {/* API KEY MODAL */}
+        {/* AI SETTINGS MODAL */}
         {showKeyModal && (
-            <div className="absolute inset-0 z-50 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center p-8 animate-fade-in">
+            <div className="absolute inset-0 z-50 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center p-8 animate-fade-in overflow-y-auto">
                 <div className="w-full max-w-md space-y-4">
                     <div className="text-center">
                         <div className="w-12 h-12 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-4 text-white">
                             <Key className="w-6 h-6" />
                         </div>
-                        <h3 className="text-2xl font-bold text-white">Setup Gemini API</h3>
-                        <p className="text-gray-400 text-sm mt-2">To use this app for free, get your own API key from Google AI Studio.</p>
+                        <h3 className="text-2xl font-bold text-white">AI Provider</h3>
+                        <p className="text-gray-400 text-sm mt-2">Pick the backend that transcribes, translates and speaks.</p>
                     </div>
-                    
-                    <input 
-                        type="text" 
-                        placeholder="Paste AIza... key here"
+
+                    <select
+                        value={providerSettings.provider}
+                        onChange={(e) => setProviderSettings({ ...providerSettings, provider: e.target.value as ProviderId, model: '' })}
+                        className="w-full bg-white/5 border border-white/20 rounded-xl p-4 text-white focus:outline-none focus:border-indigo-500 transition-colors"
+                    >
+                        {PROVIDER_LIST.map(p => <option key={p.id} value={p.id} className="bg-black">{p.label}</option>)}
+                    </select>
+
+                    <input
+                        type="text"
+                        placeholder={`Model (default: ${getProvider(providerSettings.provider).defaultModel})`}
                         className="w-full bg-white/5 border border-white/20 rounded-xl p-4 text-white placeholder-gray-600 focus:outline-none focus:border-indigo-500 transition-colors"
-                        defaultValue={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
+                        value={providerSettings.model}
+                        onChange={(e) => setProviderSettings({ ...providerSettings, model: e.target.value })}
                     />
+
+                    {providerSettings.provider === 'gemini' && (
+                        <input 
+                            type="text" 
+                            placeholder="Paste AIza... key here"
+                            className="w-full bg-white/5 border border-white/20 rounded-xl p-4 text-white placeholder-gray-600 focus:outline-none focus:border-indigo-500 transition-colors"
+                            defaultValue={apiKey}
+                            onChange={(e) => setApiKey(e.target.value)}
+                        />
+                    )}
+
+                    {providerSettings.provider === 'openai-compatible' && (
+                        <>
+                            <input
+                                type="text"
+                                placeholder="http://localhost:8080/v1"
+                                className="w-full bg-white/5 border border-white/20 rounded-xl p-4 text-white placeholder-gray-600 focus:outline-none focus:border-indigo-500 transition-colors"
+                                value={providerSettings.baseUrl}
+                                onChange={(e) => setProviderSettings({ ...providerSettings, baseUrl: e.target.value })}
+                            />
+                            <input
+                                type="password"
+                                placeholder="API key (optional for local servers)"
+                                className="w-full bg-white/5 border border-white/20 rounded-xl p-4 text-white placeholder-gray-600 focus:outline-none focus:border-indigo-500 transition-colors"
+                                value={providerSettings.endpointApiKey}
+                                onChange={(e) => setProviderSettings({ ...providerSettings, endpointApiKey: e.target.value })}
+                            />
+                        </>
+                    )}
+
+                    {providerSettings.provider === 'mock' && (
+                        <p className="text-gray-500 text-xs text-center">Generates placeholder subtitles offline. Useful for demos and testing.</p>
+                    )}
                     
                     <div className="flex gap-3">
-                        <a 
-                            href="https://aistudio.google.com/app/apikey" 
-                            target="_blank" 
-                            rel="noreferrer"
-                            className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl font-medium text-center text-sm transition-colors border border-white/10"
-                        >
-                            Get Key Free ↗
-                        </a>
+                        {providerSettings.provider === 'gemini' && (
+                            <a 
+                                href="https://aistudio.google.com/app/apikey" 
+                                target="_blank" 
+                                rel="noreferrer"
+                                className="flex-1 py-3 bg-white/5 hover:bg-white/10 text-white rounded-xl font-medium text-center text-sm transition-colors border border-white/10"
+                            >
+                                Get Key Free ↗
+                            </a>
+                        )}
                         <button 
-                            onClick={() => saveApiKey(apiKey)}
+                            onClick={saveSettings}
                             className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors shadow-lg shadow-indigo-500/30"
                         >
                             Save & Continue
                         </button>
                     </div>
-                    <button onClick={() => setShowKeyModal(false)} className="w-full text-center text-gray-500 hover:text-white text-sm mt-4">Cancel</button>
+                    <button onClick={() => { setProviderSettings(loadProviderSettings()); setShowKeyModal(false); }} className="w-full text-center text-gray-500 hover:text-white text-sm mt-4">Cancel</button>
                 </div>
             </div>
         )}
@@ -167,7 +272,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
             >
                 <input 
                 type="file" 
-                accept="video/*,audio/*" 
+                accept={`video/*,audio/*,${SUBTITLE_EXTENSIONS.join(',')}`} 
+                multiple
                 className="hidden" 
                 id="fileInput"
                 onChange={handleFileChange}
@@ -190,14 +296,22 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
                                         Checking cache...
                                     </span>
                                 ) : cachedData ? (
-                                    <span className="flex items-center gap-1 text-amber-400 text-xs font-bold uppercase tracking-wider bg-amber-400/10 px-2 py-0.5 rounded-full border border-amber-400/20">
-                                        <History className="w-3 h-3" /> Previous Translation Found
-                                    </span>
+                                    <>
+                                        <span className="flex items-center gap-1 text-amber-400 text-xs font-bold uppercase tracking-wider bg-amber-400/10 px-2 py-0.5 rounded-full border border-amber-400/20">
+                                            <History className="w-3 h-3" /> Previous Translation Found
+                                        </span>
+                                        <span
+                                            className={`text-[10px] ${cachedData.strategy === 'name-duration' ? 'text-amber-300' : 'text-gray-500'}`}
+                                            title={cachedData.strategy === 'name-duration' ? 'The file contents differ; check that it is the same recording' : undefined}
+                                        >
+                                            {MATCH_LABELS[cachedData.strategy]}
+                                        </span>
+                                    </>
                                 ) : null}
                             </div>
                         </div>
                         <button 
-                            onClick={(e) => { e.preventDefault(); setFile(null); setCachedData(null); }}
+                            onClick={(e) => { e.preventDefault(); setFile(null); setCachedData(null); clearSubtitleFile(); }}
                             className="p-2 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors"
                         >
                             <XCircle className="w-6 h-6" />
@@ -211,17 +325,45 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
                         <h3 className="text-lg font-bold text-gray-200 group-hover:text-white transition-colors">
                             {error ? <span className="text-red-400">{error}</span> : "Drop files or click to browse"}
                         </h3>
-                        <p className="text-gray-500 text-sm mt-2 font-mono">MP4, MOV, MP3 (Max 2GB)</p>
+                        <p className="text-gray-500 text-sm mt-2 font-mono">MP4, MOV, MP3 (Max 2GB) + optional SRT / VTT / ASS</p>
                     </>
                 )}
                 </label>
             </div>
 
+            {/* Sidecar Subtitles */}
+            {file && !cachedData && (
+                <div className={`-mt-4 mb-8 flex items-center gap-3 px-4 py-3 rounded-xl border text-sm ${subtitleError ? 'border-red-500/30 bg-red-500/5' : importedSubtitles ? 'border-sky-500/30 bg-sky-500/5' : 'border-white/10'} ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <Captions className={`w-4 h-4 shrink-0 ${importedSubtitles ? 'text-sky-400' : 'text-gray-500'}`} />
+                    {subtitleFile ? (
+                        <>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-white truncate">{subtitleFile.name}</p>
+                                <p className={`text-xs ${subtitleError ? 'text-red-400' : 'text-sky-300'}`}>
+                                    {subtitleError || `${importedSubtitles?.length} lines imported • transcription will be skipped`}
+                                </p>
+                            </div>
+                            <button onClick={clearSubtitleFile} className="p-1 hover:bg-white/10 rounded-full text-gray-400 hover:text-white transition-colors">
+                                <XCircle className="w-4 h-4" />
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <span className="flex-1 text-gray-500">Already have original subtitles? Attach them to skip transcription.</span>
+                            <input type="file" accept={SUBTITLE_EXTENSIONS.join(',')} className="hidden" id="subtitleInput" onChange={handleSubtitleInputChange} />
+                            <label htmlFor="subtitleInput" className="text-xs font-bold text-white px-3 py-1.5 rounded-lg border border-white/20 hover:bg-white/10 cursor-pointer transition-colors">
+                                Attach
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+
             {/* Options Grid */}
             <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 mb-8 ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}>
                 
                 {/* Language Select */}
-                <div className="md:col-span-2">
+                <div>
                     <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 ml-1">Input Source</label>
                     <div className="relative group">
                         <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -233,12 +375,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
                             className="block w-full pl-10 pr-10 py-4 text-sm border border-white/10 focus:outline-none focus:border-white/30 rounded-xl bg-black/40 text-white cursor-pointer appearance-none font-medium transition-colors hover:bg-black/60"
                         >
                             <option value="Auto Detect">Auto Detect Language</option>
-                            <option value="English">English</option>
-                            <option value="Japanese">Japanese</option>
-                            <option value="Korean">Korean</option>
-                            <option value="Chinese">Chinese</option>
-                            <option value="French">French</option>
-                            <option value="Vietnamese">Vietnamese</option>
+                            {LANGUAGES.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
                         </select>
                         <div className="absolute inset-y-0 right-0 pr-4 flex items-center pointer-events-none">
                              <Sparkles className="h-3 w-3 text-gray-500" />
@@ -246,6 +383,50 @@ const FileUpload: React.FC<FileUploadProps> = ({ onStart, onCancel, isLoading, s
                     </div>
                 </div>
 
+                {/* Target Language Select */}
+                <div>
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 ml-1">Translate Into</label>
+                    <div className="relative group">
+                        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                            <Languages className="h-4 w-4 text-gray-400" />
+                        </div>
+                        <select 
+                            value={options.targetLanguage}
+                            onChange={(e) => {
+                                localStorage.setItem('target_language', e.target.value);
+                                setOptions({...options, targetLanguage: e.target.value});
+                            }}
+                            className="block w-full pl-10 pr-10 py-4 text-sm border border-white/10 focus:outline-none focus:border-white/30 rounded-xl bg-black/40 text-white cursor-pointer appearance-none font-medium transition-colors hover:bg-black/60"
+                        >
+                            {LANGUAGES.map(l => <option key={l.name} value={l.name}>{l.name}</option>)}
+                        </select>
+                    </div>
+                </div>
+
+                {/* Extra Translation Tracks */}
+                <div className="md:col-span-2">
+                    <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 ml-1">Extra Tracks</label>
+                    <div className="flex flex-wrap gap-2">
+                        {LANGUAGES.filter(l => l.name !== options.targetLanguage).map(l => {
+                            const selected = options.extraTargetLanguages.includes(l.name);
+                            return (
+                                <button
+                                    key={l.name}
+                                    onClick={() => setOptions({
+                                        ...options,
+                                        extraTargetLanguages: selected
+                                            ? options.extraTargetLanguages.filter(name => name !== l.name)
+                                            : [...options.extraTargetLanguages, l.name]
+                                    })}
+                                    className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${selected ? 'border-white/40 bg-white/15 text-white' : 'border-white/10 text-gray-500 hover:text-white hover:bg-white/5'}`}
+                                >
+                                    {l.name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
                 {/* Option Card: Notes */}
                 <div 
                     onClick={() => !isLoading && setOptions({...options, generateNotes: !options.generateNotes})}
@@ -1,32 +1,129 @@
-import React, { useState } from 'react';
-import { Flashcard } from '../types';
-import { BrainCircuit, Download, RotateCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { CardReview, Flashcard, ReviewGrade } from '../types';
+import { BrainCircuit, Download, RotateCw, ChevronLeft, ChevronRight, PartyPopper, Loader2, Paperclip } from 'lucide-react';
+import { describeInterval, getAllReviews, getDueReviews, recordReview, REVIEW_GRADES } from '../services/srsService';
+import { buildApkg } from '../services/ankiExportService';
+import { downloadBlob } from '../services/exportService';
+import { formatTime } from '../services/timeUtils';
+import { clozeSegments, isClozeCard } from '../services/clozeService';
+import { registerShortcuts } from '../services/shortcutService';
+import ClipPlayButton from './ClipPlayButton';
 
 interface FlashcardsPanelProps {
   cards: Flashcard[];
+  targetLanguage: string;
+  originalLanguage: string;
+  sourceFileName?: string;
+  onAttachClip?: (card: Flashcard) => Promise<void>; // Cuts the card's line from the video
 }
 
-const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({ cards }) => {
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-200 text-red-600 hover:bg-red-50',
+  hard: 'border-amber-200 text-amber-600 hover:bg-amber-50',
+  good: 'border-emerald-200 text-emerald-600 hover:bg-emerald-50',
+  easy: 'border-sky-200 text-sky-600 hover:bg-sky-50',
+};
+
+// Front of a cloze card: the line with its hidden words blanked out
+const blankCloze = (card: Flashcard) =>
+  clozeSegments(card.context, card.cloze).map(seg => seg.hidden ? '[...]' : seg.text).join('');
+
+// RFC 4180 field: wrapped in quotes, embedded quotes doubled
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({ cards, targetLanguage, originalLanguage, sourceFileName, onAttachClip }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
 
-  const exportAnki = () => {
-    // Simple CSV format for Anki: Front,Back
+  // Review Mode State (due cards from every processed video)
+  const [mode, setMode] = useState<'browse' | 'review'>('browse');
+  const [dueCards, setDueCards] = useState<CardReview[]>([]);
+  const [nextDueAt, setNextDueAt] = useState<number | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+
+  // Anki Export State
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [ankiStatus, setAnkiStatus] = useState<string | null>(null);
+  const [isAttaching, setIsAttaching] = useState(false);
+
+  const refreshDue = async () => {
+    const due = await getDueReviews();
+    setDueCards(due);
+    if (due.length === 0) {
+      const upcoming = (await getAllReviews()).map(r => r.dueAt).sort((a, b) => a - b)[0];
+      setNextDueAt(upcoming ?? null);
+    }
+  };
+
+  // The deck is written by App when data is saved; re-read when this video's cards change
+  useEffect(() => { refreshDue(); }, [cards]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    const review = dueCards[0];
+    if (!review || isGrading) return;
+    setIsGrading(true);
+    try {
+      await recordReview(review, grade);
+      setIsFlipped(false);
+      await refreshDue();
+    } catch (error) {
+      console.error("Saving review failed:", error);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  // Grades only apply to a revealed review card
+  const gradeIfShown = (grade: ReviewGrade) => () => { if (mode === 'review' && isFlipped) handleGrade(grade); };
+
+  useEffect(() => registerShortcuts({
+    flipCard: () => { if (mode === 'browse' ? cards.length > 0 : dueCards.length > 0) setIsFlipped(!isFlipped); },
+    gradeAgain: gradeIfShown('again'),
+    gradeHard: gradeIfShown('hard'),
+    gradeGood: gradeIfShown('good'),
+    gradeEasy: gradeIfShown('easy'),
+  }));
+
+  const baseName = sourceFileName ? sourceFileName.replace(/\.[^/.]+$/, "") : 'flashcards';
+
+  const exportApkg = async () => {
+    if (ankiStatus) return;
+    setAnkiStatus("Starting...");
+    try {
+      const blob = await buildApkg(cards, { targetLanguage, originalLanguage, sourceFileName, includeAudio, onProgress: setAnkiStatus });
+      downloadBlob(blob, `${baseName}.apkg`);
+    } catch (error: any) {
+      console.error("Anki export failed:", error);
+      alert(`Anki export failed: ${error.message || error}`);
+    } finally {
+      setAnkiStatus(null);
+    }
+  };
+
+  const exportCsv = () => {
+    // Front,Back,Source – importable with "Fields separated by: Comma" and HTML allowed
     const csvContent = cards.map(c => {
-      // Escape quotes for CSV
-      const front = `"${c.term}"`;
-      const back = `"${c.definition}<br><br><em>Context: ${c.context}</em>"`;
-      return `${front},${back}`;
+      const source = [sourceFileName, c.sourceMs !== undefined ? formatTime(c.sourceMs) : ''].filter(Boolean).join(' @ ');
+      const [front, back] = isClozeCard(c)
+        ? [`${blankCloze(c)}<br><em>${c.definition}</em>`, c.context]
+        : [c.term, `${c.definition}<br><br><em>Context: ${c.context}</em>`];
+      return [front, back, source].map(csvField).join(',');
     }).join('\n');
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'flashcards_anki.csv';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    downloadBlob(new Blob([csvContent], { type: 'text/csv' }), `${baseName}_anki.csv`);
+  };
+
+  const handleAttachClip = async (card: Flashcard) => {
+    if (!onAttachClip || isAttaching) return;
+    setIsAttaching(true);
+    try {
+      await onAttachClip(card);
+    } catch (error: any) {
+      console.error("Attaching clip failed:", error);
+      alert(error.message || "Could not cut the audio for this card.");
+    } finally {
+      setIsAttaching(false);
+    }
   };
 
   const handleNext = () => {
@@ -39,11 +136,150 @@ const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({ cards }) => {
     setCurrentIndex((prev) => (prev - 1 + cards.length) % cards.length);
   };
 
+  const modeToggle = (
+    <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md text-xs">
+      <button
+        onClick={() => { setMode('browse'); setIsFlipped(false); }}
+        className={`px-2 py-1 rounded ${mode === 'browse' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+      >
+        Browse
+      </button>
+      <button
+        onClick={() => { setMode('review'); setIsFlipped(false); refreshDue(); }}
+        className={`px-2 py-1 rounded ${mode === 'review' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+      >
+        Review{dueCards.length > 0 && <span className="ml-1 px-1.5 rounded-full bg-indigo-600 text-white">{dueCards.length}</span>}
+      </button>
+    </div>
+  );
+
+  const renderClozeFaces = (card: Flashcard) => {
+    const segments = clozeSegments(card.context, card.cloze);
+    const clip = card.media?.find(m => m.type === 'audio');
+    return (
+      <>
+        {/* Front */}
+        <div className="absolute w-full h-full backface-hidden bg-white rounded-2xl shadow-xl border border-gray-200 flex flex-col items-center justify-center p-8 text-center hover:border-amber-300 transition-colors">
+          <span className="text-xs font-bold text-amber-500 tracking-wider mb-2">SENTENCE</span>
+          <p className="text-xl font-semibold text-gray-800 leading-relaxed">
+            {segments.map((seg, i) => seg.hidden
+              ? <span key={i} className="inline-block min-w-[3em] border-b-2 border-amber-400 text-transparent select-none">{seg.text}</span>
+              : <span key={i}>{seg.text}</span>)}
+          </p>
+          {card.definition && <p className="text-sm text-gray-400 italic mt-4">{card.definition}</p>}
+          {clip && <div className="absolute bottom-3 left-3"><ClipPlayButton media={clip} className="text-amber-500 hover:bg-amber-50" /></div>}
+          <div className="absolute bottom-4 right-4 text-gray-300">
+            <RotateCw className="w-5 h-5" />
+          </div>
+        </div>
+
+        {/* Back */}
+        <div className="absolute w-full h-full backface-hidden bg-amber-500 rounded-2xl shadow-xl flex flex-col items-center justify-center p-8 text-center text-white rotate-y-180" style={{ transform: 'rotateY(180deg)', backfaceVisibility: 'hidden' }}>
+          <span className="text-xs font-bold text-amber-100 tracking-wider mb-2">ANSWER</span>
+          <p className="text-xl font-semibold leading-relaxed">
+            {segments.map((seg, i) => <span key={i} className={seg.hidden ? 'bg-white text-amber-600 rounded px-1' : ''}>{seg.text}</span>)}
+          </p>
+          {card.definition && <p className="text-sm text-amber-50 italic mt-4">{card.definition}</p>}
+          {clip && <div className="absolute bottom-3 left-3"><ClipPlayButton media={clip} className="text-white hover:bg-amber-400" /></div>}
+        </div>
+      </>
+    );
+  };
+
+  const renderTermFaces = (card: Flashcard) => {
+    const clip = card.media?.find(m => m.type === 'audio');
+    return (
+      <>
+        {/* Front */}
+        <div className="absolute w-full h-full backface-hidden bg-white rounded-2xl shadow-xl border border-gray-200 flex flex-col items-center justify-center p-8 text-center hover:border-indigo-300 transition-colors">
+          <span className="text-xs font-bold text-indigo-500 tracking-wider mb-2">TERM</span>
+          <h2 className="text-3xl font-bold text-gray-800">{card.term}</h2>
+          <div className="absolute bottom-4 right-4 text-gray-300">
+            <RotateCw className="w-5 h-5" />
+          </div>
+        </div>
+
+        {/* Back */}
+        <div className="absolute w-full h-full backface-hidden bg-indigo-600 rounded-2xl shadow-xl flex flex-col items-center justify-center p-8 text-center text-white rotate-y-180" style={{ transform: 'rotateY(180deg)', backfaceVisibility: 'hidden' }}>
+          <span className="text-xs font-bold text-indigo-200 tracking-wider mb-2">DEFINITION</span>
+          <h2 className="text-xl font-semibold mb-4">{card.definition}</h2>
+          <div className="w-full h-px bg-indigo-400 mb-4 opacity-50"></div>
+          <p className="text-sm text-indigo-100 italic">"{card.context}"</p>
+          {clip && <div className="absolute bottom-3 left-3"><ClipPlayButton media={clip} className="text-white hover:bg-indigo-500" /></div>}
+        </div>
+      </>
+    );
+  };
+
+  const renderCard = (card: Flashcard) => (
+    <div 
+      className="relative w-full max-w-md h-64 perspective-1000 cursor-pointer group"
+      onClick={() => setIsFlipped(!isFlipped)}
+    >
+      <div className={`relative w-full h-full duration-500 preserve-3d transition-transform ${isFlipped ? 'rotate-y-180' : ''}`} style={{ transformStyle: 'preserve-3d', transform: isFlipped ? 'rotateY(180deg)' : 'rotateY(0deg)' }}>
+        {isClozeCard(card) ? renderClozeFaces(card) : renderTermFaces(card)}
+      </div>
+    </div>
+  );
+
+  if (mode === 'review') {
+    const review = dueCards[0];
+    return (
+      <div className="flex flex-col h-full bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            <BrainCircuit className="w-5 h-5 text-indigo-600" />
+            Review ({dueCards.length} due)
+          </h3>
+          {modeToggle}
+        </div>
+
+        {review ? (
+          <div className="flex-1 p-6 flex flex-col items-center justify-center bg-gray-50/50">
+            {review.sourceFileName && <p className="text-xs text-gray-400 mb-3 truncate max-w-md">From {review.sourceFileName}</p>}
+            {renderCard(review.card)}
+
+            <div className="mt-8 h-14 flex items-center">
+              {isFlipped ? (
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map(({ grade, label }) => (
+                    <button
+                      key={grade}
+                      onClick={() => handleGrade(grade)}
+                      disabled={isGrading}
+                      className={`px-3 py-2 rounded-lg border bg-white text-sm font-medium flex flex-col items-center disabled:opacity-50 ${GRADE_STYLES[grade]}`}
+                    >
+                      {label}
+                      <span className="text-[10px] text-gray-400 font-normal">{describeInterval(review, grade)}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button onClick={() => setIsFlipped(true)} className="px-6 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700">
+                  Show Answer
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 p-8 flex flex-col items-center justify-center text-gray-400 text-center">
+            <PartyPopper className="w-12 h-12 mb-4 opacity-50" />
+            <p className="font-medium text-gray-600">All caught up!</p>
+            <p className="text-sm mt-1">
+              {nextDueAt ? `Next card is due ${new Date(nextDueAt).toLocaleString()}.` : 'Process a video with flashcards to start your deck.'}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   if (!cards || cards.length === 0) {
     return (
-      <div className="h-full bg-white rounded-xl shadow border border-gray-200 p-8 flex flex-col items-center justify-center text-gray-400">
-        <BrainCircuit className="w-12 h-12 mb-4 opacity-50" />
+      <div className="h-full bg-white rounded-xl shadow border border-gray-200 p-8 flex flex-col items-center justify-center text-gray-400 gap-4">
+        <BrainCircuit className="w-12 h-12 opacity-50" />
         <p>No flashcards generated.</p>
+        {modeToggle}
       </div>
     );
   }
@@ -57,48 +293,49 @@ const FlashcardsPanel: React.FC<FlashcardsPanelProps> = ({ cards }) => {
           <BrainCircuit className="w-5 h-5 text-indigo-600" />
           Flashcards ({currentIndex + 1}/{cards.length})
         </h3>
-        <button 
-          onClick={exportAnki}
-          className="text-sm px-3 py-1.5 bg-white border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors shadow-sm flex items-center gap-2"
-        >
-          <Download className="w-3 h-3" /> Anki CSV
-        </button>
+        <div className="flex items-center gap-2">
+          {modeToggle}
+          <label className="flex items-center gap-1 text-xs text-gray-500" title="Add spoken audio of each term (uses your AI provider)">
+            <input type="checkbox" checked={includeAudio} onChange={(e) => setIncludeAudio(e.target.checked)} disabled={!!ankiStatus} />
+            Audio
+          </label>
+          <button 
+            onClick={exportApkg}
+            disabled={!!ankiStatus}
+            title={ankiStatus || "Anki package; re-importing updates the same notes"}
+            className="text-sm px-3 py-1.5 bg-white border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors shadow-sm flex items-center gap-2 disabled:opacity-60"
+          >
+            {ankiStatus ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+            {ankiStatus ? ankiStatus : 'Anki (.apkg)'}
+          </button>
+          <button 
+            onClick={exportCsv}
+            className="text-sm px-2 py-1.5 text-gray-500 hover:text-indigo-600 transition-colors"
+            title="Plain CSV for manual import"
+          >
+            CSV
+          </button>
+        </div>
       </div>
 
       <div className="flex-1 p-6 flex flex-col items-center justify-center bg-gray-50/50">
-        <div 
-          className="relative w-full max-w-md h-64 perspective-1000 cursor-pointer group"
-          onClick={() => setIsFlipped(!isFlipped)}
-        >
-          <div className={`relative w-full h-full duration-500 preserve-3d transition-transform ${isFlipped ? 'rotate-y-180' : ''}`} style={{ transformStyle: 'preserve-3d', transform: isFlipped ? 'rotateY(180deg)' : 'rotateY(0deg)' }}>
-            
-            {/* Front */}
-            <div className="absolute w-full h-full backface-hidden bg-white rounded-2xl shadow-xl border border-gray-200 flex flex-col items-center justify-center p-8 text-center hover:border-indigo-300 transition-colors">
-              <span className="text-xs font-bold text-indigo-500 tracking-wider mb-2">TERM</span>
-              <h2 className="text-3xl font-bold text-gray-800">{currentCard.term}</h2>
-              <div className="absolute bottom-4 right-4 text-gray-300">
-                <RotateCw className="w-5 h-5" />
-              </div>
-            </div>
-
-            {/* Back */}
-            <div className="absolute w-full h-full backface-hidden bg-indigo-600 rounded-2xl shadow-xl flex flex-col items-center justify-center p-8 text-center text-white rotate-y-180" style={{ transform: 'rotateY(180deg)', backfaceVisibility: 'hidden' }}>
-              <span className="text-xs font-bold text-indigo-200 tracking-wider mb-2">DEFINITION</span>
-              <h2 className="text-xl font-semibold mb-4">{currentCard.definition}</h2>
-              <div className="w-full h-px bg-indigo-400 mb-4 opacity-50"></div>
-              <p className="text-sm text-indigo-100 italic">"{currentCard.context}"</p>
-            </div>
-          </div>
-        </div>
+        {renderCard(currentCard)}
 
         {/* Controls */}
         <div className="flex items-center gap-8 mt-8">
           <button onClick={handlePrev} className="p-3 rounded-full bg-white shadow-md border border-gray-200 hover:bg-gray-50 text-gray-600">
             <ChevronLeft className="w-6 h-6" />
           </button>
-          <button onClick={() => setIsFlipped(!isFlipped)} className="text-sm text-gray-500 hover:text-indigo-600 font-medium">
-            {isFlipped ? 'Show Term' : 'Show Meaning'}
-          </button>
+          <div className="flex flex-col items-center gap-1">
+            <button onClick={() => setIsFlipped(!isFlipped)} className="text-sm text-gray-500 hover:text-indigo-600 font-medium">
+              {isFlipped ? 'Show Term' : 'Show Meaning'}
+            </button>
+            {onAttachClip && !isClozeCard(currentCard) && currentCard.sourceMs !== undefined && !currentCard.media?.some(m => m.type === 'audio') && (
+              <button onClick={() => handleAttachClip(currentCard)} disabled={isAttaching} className="flex items-center gap-1 text-xs text-gray-400 hover:text-indigo-600 disabled:opacity-50">
+                {isAttaching ? <Loader2 className="w-3 h-3 animate-spin" /> : <Paperclip className="w-3 h-3" />} Attach line audio
+              </button>
+            )}
+          </div>
           <button onClick={handleNext} className="p-3 rounded-full bg-white shadow-md border border-gray-200 hover:bg-gray-50 text-gray-600">
             <ChevronRight className="w-6 h-6" />
           </button>
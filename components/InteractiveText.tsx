@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+
+interface InteractiveTextProps {
+  text: string;
+  className?: string;
+  // Called with the clicked word, or the dragged phrase, and where it sits on screen
+  onSelect: (term: string, anchor: DOMRect) => void;
+}
+
+// Leading/trailing punctuation is not part of the looked-up word
+const trimPunctuation = (word: string) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+const InteractiveText: React.FC<InteractiveTextProps> = ({ text, className = '', onSelect }) => {
+  const rootRef = useRef<HTMLSpanElement>(null);
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    // A dragged selection inside this line wins over the word under the pointer
+    const selection = window.getSelection();
+    if (selection && !selection.isCollapsed && rootRef.current?.contains(selection.anchorNode)) {
+      const phrase = trimPunctuation(selection.toString().replace(/\s+/g, ' ').trim());
+      if (phrase) {
+        onSelect(phrase, selection.getRangeAt(0).getBoundingClientRect());
+        return;
+      }
+    }
+
+    const target = e.target as HTMLElement;
+    const word = target.dataset.word;
+    if (word) onSelect(word, target.getBoundingClientRect());
+  };
+
+  return (
+    <span ref={rootRef} className={`select-text ${className}`} onMouseUp={handleMouseUp} onClick={(e) => e.stopPropagation()}>
+      {text.split(/(\s+)/).map((token, i) => {
+        const word = trimPunctuation(token);
+        if (!word) return token;
+        return (
+          <span key={i} data-word={word} className="cursor-pointer rounded hover:bg-indigo-400/30 transition-colors">
+            {token}
+          </span>
+        );
+      })}
+    </span>
+  );
+};
+
+export default InteractiveText;
@@ -1,13 +1,28 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Note } from '../types';
 import { PlayCircle, FileText } from 'lucide-react';
+import { formatTime } from '../services/timeUtils';
 
 interface NotesPanelProps {
   notes: Note[];
-  onNoteClick: (timestamp: string) => void;
+  onNoteClick: (timestampMs: number) => void;
+  activeIndex?: number; // Note of the section being played, -1 for none
 }
 
-const NotesPanel: React.FC<NotesPanelProps> = ({ notes, onNoteClick }) => {
+const NotesPanel: React.FC<NotesPanelProps> = ({ notes, onNoteClick, activeIndex = -1 }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Keep the current section's note visible without scrolling the page around it
+  useEffect(() => {
+    const list = listRef.current;
+    const item = itemRefs.current[activeIndex];
+    if (!list || !item) return;
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTo({ top: item.offsetTop - 16, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
   const exportNotes = () => {
     // Generate simple HTML for the "Doc"
     const content = `
@@ -26,7 +41,7 @@ const NotesPanel: React.FC<NotesPanelProps> = ({ notes, onNoteClick }) => {
         <h1>Study Notes</h1>
         ${notes.map(n => `
           <div class="note">
-            <div class="time">[${n.timestamp}]</div>
+            <div class="time">[${formatTime(n.timestampMs)}]</div>
             <h3 class="title">${n.title}</h3>
             <div class="text">${n.content}</div>
           </div>
@@ -59,7 +74,7 @@ const NotesPanel: React.FC<NotesPanelProps> = ({ notes, onNoteClick }) => {
         </button>
       </div>
       
-      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar space-y-4">
+      <div ref={listRef} className="relative flex-1 overflow-y-auto p-4 custom-scrollbar space-y-4">
         {notes.length === 0 ? (
           <div className="text-center text-gray-400 py-10">
             No notes generated. Try checking "Smart Notes" next time.
@@ -68,12 +83,13 @@ const NotesPanel: React.FC<NotesPanelProps> = ({ notes, onNoteClick }) => {
           notes.map((note, idx) => (
             <div 
               key={idx} 
-              className="group p-4 rounded-lg border border-transparent hover:border-indigo-100 hover:bg-indigo-50/50 transition-all cursor-pointer"
-              onClick={() => onNoteClick(note.timestamp)}
+              ref={(el) => { itemRefs.current[idx] = el; }}
+              className={`group p-4 rounded-lg border transition-all cursor-pointer ${idx === activeIndex ? 'border-indigo-200 bg-indigo-50' : 'border-transparent hover:border-indigo-100 hover:bg-indigo-50/50'}`}
+              onClick={() => onNoteClick(note.timestampMs)}
             >
               <div className="flex items-center gap-2 mb-2">
                 <span className="px-2 py-0.5 rounded text-xs font-mono font-medium bg-gray-100 text-gray-600 group-hover:bg-indigo-100 group-hover:text-indigo-700">
-                  {note.timestamp}
+                  {formatTime(note.timestampMs)}
                 </span>
                 <PlayCircle className="w-4 h-4 text-gray-300 group-hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity" />
               </div>
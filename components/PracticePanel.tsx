@@ -0,0 +1,423 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PracticeMode, PracticeRecord, Subtitle } from '../types';
+import { Mic, Square, Play, ChevronLeft, ChevronRight, Loader2, Ear, Keyboard, ListOrdered, Eye, AlertTriangle } from 'lucide-react';
+import { DictationResult, diffWords, findPracticeRecord, getPracticeRecords, recordPracticeAttempt, scoreShadowing, ShadowingResult, WordDiff } from '../services/practiceService';
+import { extractClipBuffer } from '../services/audioClipService';
+import { getLanguageCode } from '../services/languages';
+import { formatTime } from '../services/timeUtils';
+import VoiceOverlay from './VoiceOverlay';
+
+interface PracticePanelProps {
+  file: File;
+  fingerprint: string; // Session key the practice records are stored under
+  subtitles: Subtitle[];
+  originalLanguage: string;
+  onPlayLine: (sub: Subtitle) => Promise<void>; // Plays the line in the video and resolves when it has ended
+}
+
+type Phase = 'idle' | 'listening' | 'recording' | 'scoring';
+
+// The part of the Web Speech API used here; the DOM typings don't include it
+interface SpeechRecognitionResultEvent {
+  results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionInstance {
+  lang: string;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onend: (() => void) | null;
+  onerror: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionInstance;
+
+const speechWindow = window as Window & { SpeechRecognition?: SpeechRecognitionConstructor; webkitSpeechRecognition?: SpeechRecognitionConstructor };
+const SpeechRecognitionClass = speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+
+const RECOGNITION_GRACE_MS = 1500; // Speech recognition may deliver its final result after the mic stops
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-emerald-600' : score >= 50 ? 'text-amber-600' : 'text-red-500';
+
+const WORD_STYLES: Record<WordDiff['status'], string> = {
+  correct: 'text-emerald-700',
+  wrong: 'text-red-600 line-through',
+  missing: 'text-gray-400 underline decoration-dotted',
+  extra: 'text-red-400 line-through',
+};
+
+const PracticePanel: React.FC<PracticePanelProps> = ({ file, fingerprint, subtitles, originalLanguage, onPlayLine }) => {
+  const [mode, setMode] = useState<PracticeMode>('shadowing');
+  const [index, setIndex] = useState(0);
+  const [records, setRecords] = useState<PracticeRecord[]>([]);
+  const [showWeak, setShowWeak] = useState(false);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  // Shadowing State
+  const [shadowResult, setShadowResult] = useState<ShadowingResult | null>(null);
+  const [heardText, setHeardText] = useState<string | null>(null);
+  const [attemptUrl, setAttemptUrl] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimerRef = useRef<number | null>(null);
+
+  // Dictation State
+  const [typed, setTyped] = useState('');
+  const [dictationResult, setDictationResult] = useState<DictationResult | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  const sub = subtitles[Math.min(index, subtitles.length - 1)];
+  const record = sub ? findPracticeRecord(records, fingerprint, sub) : undefined;
+
+  useEffect(() => {
+    getPracticeRecords(fingerprint).then(setRecords);
+  }, [fingerprint]);
+
+  // A new line or mode starts from a clean slate
+  useEffect(() => {
+    setShadowResult(null);
+    setHeardText(null);
+    setTyped('');
+    setDictationResult(null);
+    setIsRevealed(false);
+    setError(null);
+  }, [index, mode]);
+
+  useEffect(() => () => { if (attemptUrl) URL.revokeObjectURL(attemptUrl); }, [attemptUrl]);
+
+  // Leaving mid-attempt releases the microphone and recognition without scoring
+  useEffect(() => () => {
+    if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(t => t.stop());
+    }
+  }, []);
+
+  // Lowest best score first: the sentences that still need work
+  const weakLines = useMemo(() => {
+    return subtitles
+      .map((s, i) => ({ index: i, sub: s, record: findPracticeRecord(records, fingerprint, s) }))
+      .filter((l): l is { index: number; sub: Subtitle; record: PracticeRecord } => !!l.record)
+      .sort((a, b) => a.record.bestScore - b.record.bestScore);
+  }, [records, subtitles, fingerprint]);
+
+  const saveAttempt = async (score: number, extra: { typed?: string; heard?: string }) => {
+    const updated = await recordPracticeAttempt(fingerprint, sub, { mode, score, at: Date.now(), ...extra });
+    setRecords([...records.filter(r => r.key !== updated.key), updated]);
+  };
+
+  // --- SHADOWING ---
+  const startRecording = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Microphone access failed", err);
+      setError("Microphone access was denied.");
+      setPhase('idle');
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream);
+    recorderRef.current = recorder;
+
+    // Recognition runs alongside the recorder when the browser offers it
+    let heard: string | undefined;
+    let recognitionDone: Promise<void> = Promise.resolve();
+    if (SpeechRecognitionClass) {
+      const recognition = new SpeechRecognitionClass();
+      if (originalLanguage !== 'Auto Detect') recognition.lang = getLanguageCode(originalLanguage);
+      recognition.interimResults = false;
+      recognition.onresult = (event) => {
+        heard = Array.from(event.results).map(r => r[0].transcript).join(' ');
+      };
+      recognitionDone = new Promise(resolve => {
+        recognition.onend = () => resolve();
+        recognition.onerror = () => resolve();
+        window.setTimeout(resolve, (sub.endMs - sub.startMs) * 2 + RECOGNITION_GRACE_MS + 4000);
+      });
+      recorder.addEventListener('stop', () => recognition.stop());
+      recognition.start();
+    }
+
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = async () => {
+      stream.getTracks().forEach(t => t.stop());
+      if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+      setPhase('scoring');
+      try {
+        const blob = new Blob(chunks, { type: recorder.mimeType });
+        setAttemptUrl(URL.createObjectURL(blob));
+
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        const audioContext: AudioContext = new AudioContextClass();
+        const attempt = await audioContext.decodeAudioData(await blob.arrayBuffer()).finally(() => audioContext.close());
+        const original = await extractClipBuffer(file, sub.startMs, sub.endMs);
+        await Promise.race([recognitionDone, new Promise(r => setTimeout(r, RECOGNITION_GRACE_MS))]);
+
+        const result = scoreShadowing(original, attempt, sub.textOriginal, heard);
+        setShadowResult(result);
+        setHeardText(heard ?? null);
+        await saveAttempt(result.score, { heard });
+      } catch (err: any) {
+        console.error("Scoring attempt failed", err);
+        setError(err.message || "Could not score this attempt.");
+      } finally {
+        setPhase('idle');
+      }
+    };
+
+    recorder.start();
+    setPhase('recording');
+    // Stops by itself with room for a slower attempt
+    stopTimerRef.current = window.setTimeout(() => stopRecording(), (sub.endMs - sub.startMs) * 1.5 + 1500);
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  };
+
+  const handleListenAndRepeat = async () => {
+    setError(null);
+    setShadowResult(null);
+    setPhase('listening');
+    try {
+      await onPlayLine(sub);
+      await startRecording();
+    } catch (err: any) {
+      console.error("Listen and repeat failed", err);
+      setError(err.message || "Could not play this line.");
+      setPhase('idle');
+    }
+  };
+
+  // --- DICTATION ---
+  const handleCheck = async () => {
+    if (!typed.trim()) return;
+    const result = diffWords(sub.textOriginal, typed);
+    setDictationResult(result);
+    setIsRevealed(true);
+    try {
+      await saveAttempt(result.score, { typed });
+    } catch (err: any) {
+      console.error("Saving dictation attempt failed", err);
+      setError(err.message || "Could not save this attempt.");
+    }
+  };
+
+  const goTo = (next: number) => {
+    if (phase !== 'idle') return;
+    setIndex(Math.max(0, Math.min(subtitles.length - 1, next)));
+  };
+
+  if (!sub) {
+    return (
+      <div className="h-full bg-white rounded-xl shadow border border-gray-200 p-8 flex flex-col items-center justify-center text-gray-400 gap-4">
+        <Mic className="w-12 h-12 opacity-50" />
+        <p>No subtitles to practice.</p>
+      </div>
+    );
+  }
+
+  const renderScoreBar = (label: string, score: number | null) => (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-20 text-gray-500">{label}</span>
+      {score === null ? (
+        <span className="text-gray-300">n/a</span>
+      ) : (
+        <>
+          <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${score}%` }}></div>
+          </div>
+          <span className="w-8 text-right font-mono text-gray-600">{score}</span>
+        </>
+      )}
+    </div>
+  );
+
+  const renderDiff = (words: WordDiff[]) => (
+    <p className="leading-relaxed">
+      {words.map((w, i) => w.status === 'wrong' ? (
+        <span key={i} className="mr-1" title={`Expected "${w.text}"`}>
+          <span className={WORD_STYLES.wrong}>{w.typed}</span> <span className="text-emerald-700 font-medium">{w.text}</span>
+        </span>
+      ) : (
+        <span key={i} className={`mr-1 ${WORD_STYLES[w.status]}`} title={w.status}>{w.text}</span>
+      ))}
+    </p>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-white rounded-xl shadow border border-gray-200 overflow-hidden">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          <Mic className="w-5 h-5 text-indigo-600" />
+          Practice
+        </h3>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 bg-gray-100 p-0.5 rounded-md text-xs">
+            <button
+              onClick={() => setMode('shadowing')}
+              className={`px-2 py-1 rounded flex items-center gap-1 ${mode === 'shadowing' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              <Ear className="w-3 h-3" /> Shadowing
+            </button>
+            <button
+              onClick={() => setMode('dictation')}
+              className={`px-2 py-1 rounded flex items-center gap-1 ${mode === 'dictation' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              <Keyboard className="w-3 h-3" /> Dictation
+            </button>
+          </div>
+          <button
+            onClick={() => setShowWeak(!showWeak)}
+            className={`p-1.5 rounded-md ${showWeak ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            title="Weak sentences"
+          >
+            <ListOrdered className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {showWeak ? (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {weakLines.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-12">No practice results yet.</p>
+          ) : weakLines.map(line => (
+            <button
+              key={line.record.key}
+              onClick={() => { setIndex(line.index); setShowWeak(false); }}
+              className="w-full text-left p-3 rounded-lg hover:bg-indigo-50 flex items-start gap-3"
+            >
+              <span className={`font-mono font-bold text-sm w-8 shrink-0 ${scoreColor(line.record.bestScore)}`}>{line.record.bestScore}</span>
+              <span className="min-w-0">
+                <span className="block text-sm text-gray-800 truncate">{line.sub.textOriginal}</span>
+                <span className="block text-[10px] text-gray-400">
+                  {formatTime(line.sub.startMs)} · {line.record.attempts.length} attempts · last {line.record.lastScore}
+                </span>
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+          {/* Line Navigator */}
+          <div className="flex items-center justify-between">
+            <button onClick={() => goTo(index - 1)} disabled={index === 0 || phase !== 'idle'} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-30">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-xs text-gray-400 font-mono">
+              Line {index + 1}/{subtitles.length} · {formatTime(sub.startMs)}
+              {record && <> · best <span className={scoreColor(record.bestScore)}>{record.bestScore}</span></>}
+            </span>
+            <button onClick={() => goTo(index + 1)} disabled={index >= subtitles.length - 1 || phase !== 'idle'} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 disabled:opacity-30">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Line Text (hidden in dictation until checked) */}
+          <div className="p-4 rounded-xl bg-gray-50 border border-gray-100 text-center">
+            {mode === 'dictation' && !isRevealed ? (
+              <p className="text-gray-300 tracking-widest select-none">{sub.textOriginal.replace(/[^\s]/g, '•')}</p>
+            ) : (
+              <p className="text-gray-900 font-medium">{sub.textOriginal}</p>
+            )}
+            {sub.textTranslated && <p className="text-sm text-indigo-600 italic mt-1">{sub.textTranslated}</p>}
+          </div>
+
+          {error && <p className="flex items-center gap-2 text-sm text-red-500"><AlertTriangle className="w-4 h-4" />{error}</p>}
+
+          {mode === 'shadowing' ? (
+            <>
+              <div className="flex justify-center gap-2">
+                {phase === 'recording' ? (
+                  <button onClick={stopRecording} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-700 animate-pulse">
+                    <Square className="w-4 h-4 fill-white" /> Stop
+                  </button>
+                ) : (
+                  <>
+                    <button onClick={() => onPlayLine(sub)} disabled={phase !== 'idle'} className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm hover:bg-gray-50 disabled:opacity-50">
+                      <Play className="w-4 h-4" /> Listen
+                    </button>
+                    <button onClick={handleListenAndRepeat} disabled={phase !== 'idle'} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50">
+                      {phase === 'idle' ? <Mic className="w-4 h-4" /> : <Loader2 className="w-4 h-4 animate-spin" />}
+                      {phase === 'listening' ? 'Listen...' : phase === 'scoring' ? 'Scoring...' : 'Listen & Repeat'}
+                    </button>
+                  </>
+                )}
+              </div>
+              {!SpeechRecognitionClass && (
+                <p className="text-[10px] text-center text-gray-400">Speech recognition is not available in this browser; scoring uses timing and voice shape only.</p>
+              )}
+
+              {shadowResult && (
+                <div className="space-y-3">
+                  <div className="text-center">
+                    <span className={`text-4xl font-bold ${scoreColor(shadowResult.score)}`}>{shadowResult.score}</span>
+                    <span className="text-gray-400 text-sm"> / 100</span>
+                  </div>
+                  <div className="space-y-1">
+                    {renderScoreBar('Duration', shadowResult.durationScore)}
+                    {renderScoreBar('Rhythm', shadowResult.envelopeScore)}
+                    {renderScoreBar('Intonation', shadowResult.pitchScore)}
+                    {renderScoreBar('Words', shadowResult.textScore)}
+                  </div>
+                  <VoiceOverlay original={shadowResult.original} attempt={shadowResult.attempt} />
+                  {heardText !== null && (
+                    <div className="text-sm">
+                      <p className="text-xs text-gray-400 mb-1">Heard:</p>
+                      {renderDiff(diffWords(sub.textOriginal, heardText).words)}
+                    </div>
+                  )}
+                  {attemptUrl && <audio src={attemptUrl} controls className="w-full h-8" />}
+                </div>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="flex justify-center">
+                <button onClick={() => onPlayLine(sub)} className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm hover:bg-gray-50">
+                  <Play className="w-4 h-4" /> Play line
+                </button>
+              </div>
+              <textarea
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleCheck(); } }}
+                placeholder="Type what you hear..."
+                rows={3}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm resize-none"
+              />
+              <div className="flex justify-between">
+                <button onClick={() => setIsRevealed(true)} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600">
+                  <Eye className="w-3 h-3" /> Reveal
+                </button>
+                <button onClick={handleCheck} disabled={!typed.trim()} className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-50">
+                  Check
+                </button>
+              </div>
+              {dictationResult && (
+                <div className="space-y-2">
+                  <div className="text-center">
+                    <span className={`text-4xl font-bold ${scoreColor(dictationResult.score)}`}>{dictationResult.score}</span>
+                    <span className="text-gray-400 text-sm"> / 100</span>
+                  </div>
+                  <div className="text-sm p-3 rounded-lg bg-gray-50">{renderDiff(dictationResult.words)}</div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticePanel;
@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProcessedData, VocabularySource } from '../types';
+import { Search, X, Loader2, Captions, FileText, BrainCircuit, Library } from 'lucide-react';
+import { LibrarySearchResult, searchLibrary, searchSession, SearchHit } from '../services/searchService';
+import { formatTime } from '../services/timeUtils';
+
+interface SearchBarProps {
+  data: ProcessedData;
+  fingerprint: string | null; // Library hits from this session seek instead of reopening
+  onSeek: (timestampMs: number) => void;
+  onHitsChange: (timestampsMs: number[]) => void; // Seek bar markers for the current query
+  onOpenSource: (source: VocabularySource) => void;
+}
+
+const KIND_ICONS = { line: Captions, note: FileText, card: BrainCircuit };
+const SNIPPET_LEAD = 40; // Characters kept before the match
+
+const renderSnippet = (hit: SearchHit) => {
+  const [start, end] = hit.match;
+  const lead = start > SNIPPET_LEAD ? '…' + hit.text.slice(start - SNIPPET_LEAD, start) : hit.text.slice(0, start);
+  return (
+    <>
+      {lead}
+      <mark className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{hit.text.slice(start, end)}</mark>
+      {hit.text.slice(end)}
+    </>
+  );
+};
+
+const SearchBar: React.FC<SearchBarProps> = ({ data, fingerprint, onSeek, onHitsChange, onOpenSource }) => {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<'session' | 'library'>('session');
+  const [isOpen, setIsOpen] = useState(false);
+  const [libraryResults, setLibraryResults] = useState<LibrarySearchResult[] | null>(null);
+  const [isSearchingLibrary, setIsSearchingLibrary] = useState(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  // Debounced so a two-hour transcript isn't scanned on every keystroke
+  useEffect(() => {
+    const timer = window.setTimeout(() => setQuery(input.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const hits = useMemo(() => searchSession(data, query), [data, query]);
+
+  useEffect(() => {
+    onHitsChange(Array.from(new Set(hits.map(h => h.timestampMs).filter((t): t is number => t !== null))));
+  }, [hits]);
+
+  useEffect(() => {
+    if (scope !== 'library' || !query) {
+      setLibraryResults(null);
+      return;
+    }
+    let isCurrent = true;
+    setIsSearchingLibrary(true);
+    setLibraryError(null);
+    searchLibrary(query)
+      .then(results => { if (isCurrent) setLibraryResults(results); })
+      .catch(error => {
+        console.error("Library search failed", error);
+        if (!isCurrent) return;
+        setLibraryResults(null);
+        setLibraryError(error?.message || "Could not search the cached sessions.");
+      })
+      .finally(() => { if (isCurrent) setIsSearchingLibrary(false); });
+    return () => { isCurrent = false; };
+  }, [scope, query]);
+
+  const openHit = (hit: SearchHit, result?: LibrarySearchResult) => {
+    if (hit.timestampMs === null) return;
+    if (result && result.fingerprint !== fingerprint) {
+      onOpenSource({ fingerprint: result.fingerprint, fileName: result.fileName, timestampMs: hit.timestampMs, context: hit.text });
+    } else {
+      onSeek(hit.timestampMs);
+    }
+    setIsOpen(false);
+  };
+
+  const clear = () => {
+    setInput('');
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const renderHit = (hit: SearchHit, key: string, result?: LibrarySearchResult) => {
+    const Icon = KIND_ICONS[hit.kind];
+    return (
+      <button
+        key={key}
+        onClick={() => openHit(hit, result)}
+        disabled={hit.timestampMs === null}
+        className="w-full text-left px-3 py-2 hover:bg-indigo-50 flex items-start gap-2 disabled:cursor-default disabled:hover:bg-transparent"
+      >
+        <Icon className="w-3.5 h-3.5 mt-0.5 text-gray-400 shrink-0" />
+        <span className="min-w-0 flex-1">
+          <span className="block text-sm text-gray-700 line-clamp-2 break-words">{renderSnippet(hit)}</span>
+          <span className="block text-[10px] text-gray-400">
+            {hit.field}{hit.timestampMs !== null && <> · <span className="font-mono">{formatTime(hit.timestampMs)}</span></>}
+          </span>
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="relative w-full">
+      <div className="flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-1.5 focus-within:bg-white focus-within:ring-2 focus-within:ring-indigo-200 transition-all">
+        <Search className="w-4 h-4 text-gray-400 shrink-0" />
+        <input
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setIsOpen(true); }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={(e) => { if (e.key === 'Escape') clear(); }}
+          placeholder={scope === 'library' ? 'Search all sessions...' : 'Search transcript, notes, cards...'}
+          className="flex-1 min-w-0 bg-transparent text-sm text-gray-800 outline-none"
+        />
+        {query && scope === 'session' && <span className="text-[10px] text-gray-400 shrink-0">{hits.length}</span>}
+        <button
+          onClick={() => { setScope(scope === 'session' ? 'library' : 'session'); setIsOpen(true); }}
+          className={`p-1 rounded shrink-0 ${scope === 'library' ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:text-gray-600'}`}
+          title={scope === 'library' ? 'Searching all cached sessions' : 'Search all cached sessions'}
+        >
+          <Library className="w-3.5 h-3.5" />
+        </button>
+        {input && (
+          <button onClick={clear} className="p-0.5 text-gray-400 hover:text-gray-600 shrink-0">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      {isOpen && query && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute left-0 right-0 mt-1 max-h-96 overflow-y-auto custom-scrollbar bg-white rounded-lg shadow-xl border border-gray-100 z-50 py-1">
+            {scope === 'session' ? (
+              hits.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-center text-gray-400">No matches in this session.</p>
+              ) : hits.map((hit, i) => renderHit(hit, String(i)))
+            ) : libraryError ? (
+              <p className="px-3 py-4 text-sm text-center text-red-500">{libraryError}</p>
+            ) : isSearchingLibrary && !libraryResults ? (
+              <p className="px-3 py-4 text-sm text-center text-gray-400 flex items-center justify-center gap-2"><Loader2 className="w-4 h-4 animate-spin" />Searching...</p>
+            ) : !libraryResults || libraryResults.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-center text-gray-400">No matches in any cached session.</p>
+            ) : libraryResults.map(result => (
+              <div key={result.fingerprint}>
+                <p className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-400 truncate">
+                  {result.fileName}{result.fingerprint === fingerprint && ' (open)'} · {result.hits.length}
+                </p>
+                {result.hits.map((hit, i) => renderHit(hit, `${result.fingerprint}-${i}`, result))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
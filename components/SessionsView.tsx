@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, History, Search, Pencil, Trash2, FileText, FileVideo, Check, X, Loader2, Clock, BrainCircuit, Languages } from 'lucide-react';
+import { deleteSession, listSessions, renameSession, SessionSummary } from '../services/cacheService';
+import { formatTime } from '../services/timeUtils';
+
+interface SessionsViewProps {
+  currentFingerprint: string | null;
+  onBack: () => void;
+  onOpen: (session: SessionSummary, withMedia: boolean) => void;
+  onDeleted: (fingerprint: string) => void;
+}
+
+const SessionsView: React.FC<SessionsViewProps> = ({ currentFingerprint, onBack, onOpen, onDeleted }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+
+  // Renaming State
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  useEffect(() => {
+    listSessions().then(list => {
+      setSessions(list);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return sessions.filter(s => !q || s.title.toLowerCase().includes(q) || s.fileName.toLowerCase().includes(q));
+  }, [sessions, query]);
+
+  const startRename = (session: SessionSummary) => {
+    setDraftTitle(session.title);
+    setEditingKey(session.fingerprint);
+  };
+
+  const handleRename = async (session: SessionSummary) => {
+    try {
+      await renameSession(session.fingerprint, draftTitle);
+      setSessions(sessions.map(s => s.fingerprint === session.fingerprint ? { ...s, title: draftTitle.trim() || s.fileName } : s));
+      setEditingKey(null);
+    } catch (error: any) {
+      alert(error.message || "Could not rename this session.");
+    }
+  };
+
+  const handleDelete = async (session: SessionSummary) => {
+    if (!confirm(`Delete "${session.title}"? Its transcript, notes, line clips and practice results are removed, along with words only it added to My Vocabulary. Review cards stay in your deck.`)) return;
+    try {
+      await deleteSession(session.fingerprint);
+      setSessions(sessions.filter(s => s.fingerprint !== session.fingerprint));
+      onDeleted(session.fingerprint);
+    } catch (error: any) {
+      alert(error.message || "Could not delete this session.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between sticky top-0 z-50 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-2 rounded-full hover:bg-gray-100 text-gray-600 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-lg font-bold text-gray-800 leading-tight flex items-center gap-2">
+              <History className="w-5 h-5 text-indigo-600" /> Recent Sessions
+            </h1>
+            <p className="text-xs text-gray-500">{sessions.length} saved on this device</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 md:p-6 max-w-4xl mx-auto w-full space-y-4">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search sessions..."
+            className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-gray-400"><Loader2 className="w-6 h-6 animate-spin" /></div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center text-gray-400 py-20">
+            {sessions.length === 0 ? 'No sessions yet. Process a video and it will show up here.' : 'No sessions match your search.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map(session => (
+              <div key={session.fingerprint} className="group bg-white border border-gray-200 rounded-xl p-4 shadow-sm hover:border-indigo-200 transition-colors">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    {editingKey === session.fingerprint ? (
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={draftTitle}
+                          onChange={(e) => setDraftTitle(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') handleRename(session); if (e.key === 'Escape') setEditingKey(null); }}
+                          className="flex-1 border border-gray-200 rounded-lg px-3 py-1.5 text-sm"
+                          autoFocus
+                        />
+                        <button onClick={() => handleRename(session)} className="p-1.5 rounded-lg text-indigo-600 hover:bg-indigo-50"><Check className="w-4 h-4" /></button>
+                        <button onClick={() => setEditingKey(null)} className="p-1.5 rounded-lg text-gray-400 hover:bg-gray-100"><X className="w-4 h-4" /></button>
+                      </div>
+                    ) : (
+                      <h3 className="font-semibold text-gray-800 truncate" title={session.fileName}>
+                        {session.title}
+                        {session.fingerprint === currentFingerprint && <span className="ml-2 text-[10px] font-medium text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">Open</span>}
+                      </h3>
+                    )}
+                    {session.title !== session.fileName && <p className="text-xs text-gray-400 truncate">{session.fileName}</p>}
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+                      <span>{new Date(session.timestamp).toLocaleString()}</span>
+                      <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatTime(session.durationMs)}</span>
+                      <span className="flex items-center gap-1">
+                        <Languages className="w-3 h-3" />
+                        {session.originalLanguage === 'Auto Detect' ? 'Original' : session.originalLanguage} → {session.targetLanguage}
+                      </span>
+                      <span className="flex items-center gap-1"><FileText className="w-3 h-3" />{session.lineCount} lines · {session.noteCount} notes</span>
+                      <span className="flex items-center gap-1"><BrainCircuit className="w-3 h-3" />{session.cardCount} cards</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => startRename(session)} className="p-2 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 transition-all" title="Rename">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(session)} className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <div className="flex gap-2 mt-3">
+                  <button onClick={() => onOpen(session, false)} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+                    <FileText className="w-4 h-4" /> Open
+                  </button>
+                  <button onClick={() => onOpen(session, true)} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50" title="Pick the media file to play along">
+                    <FileVideo className="w-4 h-4" /> Open with Media
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SessionsView;
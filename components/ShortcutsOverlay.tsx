@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+import {
+  formatShortcutKey,
+  getShortcutBindings,
+  keyFromEvent,
+  rebindShortcut,
+  resetShortcutBindings,
+  saveShortcutBindings,
+  ShortcutAction,
+  ShortcutBindings,
+  SHORTCUTS,
+} from '../services/shortcutService';
+
+interface ShortcutsOverlayProps {
+  onClose: () => void;
+}
+
+const GROUPS = ['Player', 'Flashcards', 'Notes', 'General'] as const;
+
+// Lists every binding; clicking one records the next key press as its new key
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ onClose }) => {
+  const [bindings, setBindings] = useState<ShortcutBindings>(getShortcutBindings);
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    // Capture phase, so keys don't reach the shortcut registry while the overlay is open
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.stopPropagation();
+      const key = keyFromEvent(e);
+      if (!recording) {
+        if (e.key === 'Escape' || key === bindings.showShortcuts) onClose();
+        return;
+      }
+      e.preventDefault();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      if (!key) return;
+      const next = rebindShortcut(bindings, recording, key);
+      saveShortcutBindings(next);
+      setBindings(next);
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl max-w-lg w-full shadow-2xl overflow-hidden animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <h3 className="font-bold text-lg text-gray-800 flex items-center gap-2">
+            <Keyboard className="w-5 h-5 text-indigo-600" />
+            Keyboard Shortcuts
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-200 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {GROUPS.map(group => (
+            <div key={group}>
+              <h4 className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{group}</h4>
+              <div className="space-y-1">
+                {SHORTCUTS.filter(s => s.group === group).map(s => (
+                  <div key={s.action} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">{s.label}</span>
+                    <button
+                      onClick={() => setRecording(recording === s.action ? null : s.action)}
+                      className={`min-w-[3rem] px-2 py-1 rounded-md border font-mono text-xs transition-colors ${recording === s.action ? 'border-indigo-500 bg-indigo-50 text-indigo-600 animate-pulse' : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-indigo-300'}`}
+                      title="Click, then press the new key"
+                    >
+                      {recording === s.action ? 'Press a key…' : formatShortcutKey(bindings[s.action])}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-6 py-3 border-t border-gray-100 bg-gray-50 flex justify-between items-center">
+          <p className="text-xs text-gray-400">Shortcuts are ignored while typing in a text field.</p>
+          <button
+            onClick={() => { setBindings(resetShortcutBindings()); setRecording(null); }}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-indigo-600"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
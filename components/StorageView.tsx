@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, HardDrive, Trash2, Loader2, ShieldCheck, ShieldAlert, Check, AlertTriangle } from 'lucide-react';
+import { CategoryUsage, enforceStorageBudget, formatBytes, getStorageBudget, getStorageReport, purgeCategory, requestPersistentStorage, saveStorageBudget, StorageReport } from '../services/storageService';
+
+interface StorageViewProps {
+  currentFingerprint: string | null; // Never evicted while it is open
+  onBack: () => void;
+}
+
+const MB = 1024 * 1024;
+
+const CATEGORY_COLORS: Record<CategoryUsage['category'], string> = {
+  transcripts: 'bg-indigo-500',
+  tts: 'bg-amber-400',
+  clips: 'bg-emerald-500',
+  reviews: 'bg-sky-500',
+};
+
+const StorageView: React.FC<StorageViewProps> = ({ currentFingerprint, onBack }) => {
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [purging, setPurging] = useState<CategoryUsage['category'] | null>(null);
+  const [budgetMb, setBudgetMb] = useState(() => {
+    const budget = getStorageBudget();
+    return budget ? String(Math.round(budget / MB)) : '';
+  });
+  const [budgetMessage, setBudgetMessage] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const refresh = () => getStorageReport().then(setReport);
+
+  useEffect(() => {
+    refresh().catch(error => {
+      console.error("[IndexedDB] Measuring storage failed:", error);
+      setLoadError(error?.message || "Could not measure what is stored.");
+    });
+  }, []);
+
+  const handlePurge = async (usage: CategoryUsage) => {
+    if (!confirm(`Delete all ${usage.label.toLowerCase()} (${formatBytes(usage.bytes)})? This cannot be undone.`)) return;
+    setPurging(usage.category);
+    try {
+      await purgeCategory(usage.category);
+      await refresh();
+    } catch (error: any) {
+      alert(error.message || "Could not clear this category.");
+    } finally {
+      setPurging(null);
+    }
+  };
+
+  const handleApplyBudget = async () => {
+    const mb = Number(budgetMb);
+    if (budgetMb.trim() && (!Number.isFinite(mb) || mb <= 0)) {
+      setBudgetMessage("Enter a size in MB, or leave it empty for no limit.");
+      return;
+    }
+    saveStorageBudget(budgetMb.trim() ? mb * MB : null);
+    setIsApplying(true);
+    try {
+      const evicted = await enforceStorageBudget(currentFingerprint);
+      setBudgetMessage(!budgetMb.trim() ? "No limit set." : evicted > 0 ? `Saved. Removed ${evicted} least recently used session${evicted === 1 ? '' : 's'}.` : "Saved. Everything fits.");
+      await refresh();
+    } catch (error: any) {
+      setBudgetMessage(`Saved, but old data could not be removed: ${error.message || error}`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    if (!granted) alert("The browser declined. It usually grants this for sites you visit often or have installed.");
+    await refresh();
+  };
+
+  const measured = report ? report.categories.reduce((sum, c) => sum + c.bytes, 0) : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between sticky top-0 z-50 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-2 rounded-full hover:bg-gray-100 text-gray-600 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-lg font-bold text-gray-800 leading-tight flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-indigo-600" /> Storage
+            </h1>
+            <p className="text-xs text-gray-500">What BilingualFlow keeps on this device</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-4 md:p-6 max-w-3xl mx-auto w-full space-y-6">
+        {loadError && !report ? (
+          <div className="flex items-center justify-center gap-2 py-20 text-red-500 text-sm"><AlertTriangle className="w-5 h-5" />{loadError}</div>
+        ) : !report ? (
+          <div className="flex items-center justify-center py-20 text-gray-400"><Loader2 className="w-6 h-6 animate-spin" /></div>
+        ) : (
+          <>
+            {/* Usage */}
+            <section className="bg-white border border-gray-200 rounded-xl p-5 shadow-sm space-y-4">
+              <div className="flex items-baseline justify-between">
+                <h2 className="font-semibold text-gray-800">Usage</h2>
+                <span className="text-sm text-gray-500">
+                  {report.usage !== null ? formatBytes(report.usage) : formatBytes(measured)}
+                  {report.quota !== null && <> of {formatBytes(report.quota)} available</>}
+                </span>
+              </div>
+              <div className="h-3 rounded-full bg-gray-100 overflow-hidden flex">
+                {measured > 0 && report.categories.map(c => (
+                  <div key={c.category} className={CATEGORY_COLORS[c.category]} style={{ width: `${(c.bytes / measured) * 100}%` }} title={c.label}></div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400">The browser's figure includes database overhead; category sizes are measured from the stored data.</p>
+              <div className="flex items-center justify-between text-sm">
+                <span className={`flex items-center gap-2 ${report.persisted ? 'text-emerald-600' : 'text-amber-600'}`}>
+                  {report.persisted ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                  {report.persisted ? 'Persistent: the browser will not clear this data on its own' : 'Best effort: the browser may clear this data when space runs low'}
+                </span>
+                {!report.persisted && (
+                  <button onClick={handlePersist} className="text-indigo-600 hover:underline text-sm shrink-0 ml-4">Make persistent</button>
+                )}
+              </div>
+            </section>
+
+            {/* Categories */}
+            <section className="bg-white border border-gray-200 rounded-xl shadow-sm divide-y divide-gray-100">
+              {report.categories.map(c => (
+                <div key={c.category} className="flex items-center gap-4 p-4">
+                  <span className={`w-3 h-3 rounded-full shrink-0 ${CATEGORY_COLORS[c.category]}`}></span>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-800">{c.label}</p>
+                    <p className="text-xs text-gray-500">{c.description}</p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="text-sm font-mono text-gray-700">{formatBytes(c.bytes)}</p>
+                    <p className="text-[10px] text-gray-400">{c.items} item{c.items === 1 ? '' : 's'}</p>
+                  </div>
+                  <button
+                    onClick={() => handlePurge(c)}
+                    disabled={c.items === 0 || purging !== null}
+                    className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                    title={`Delete all ${c.label.toLowerCase()}`}
+                  >
+                    {purging === c.category ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </div>
+              ))}
+            </section>
+
+            {/* Budget */}
+            <section className="bg-white border border-gray-200 rounded-xl p-5 shadow-sm space-y-3">
+              <h2 className="font-semibold text-gray-800">Size budget</h2>
+              <p className="text-sm text-gray-500">
+                When saved data grows past the budget, the least recently used TTS audio goes first, then the least recently opened sessions with their clips and practice results. Review cards and vocabulary are kept.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={budgetMb}
+                  onChange={(e) => { setBudgetMb(e.target.value); setBudgetMessage(null); }}
+                  placeholder="No limit"
+                  className="w-32 border border-gray-200 rounded-lg px-3 py-1.5 text-sm"
+                />
+                <span className="text-sm text-gray-500">MB</span>
+                <button onClick={handleApplyBudget} disabled={isApplying} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                  {isApplying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />} Apply
+                </button>
+              </div>
+              {budgetMessage && <p className="text-xs text-gray-500">{budgetMessage}</p>}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StorageView;
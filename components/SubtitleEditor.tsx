@@ -0,0 +1,364 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Subtitle } from '../types';
+import { Scissors, Merge, Plus, Trash2, MoveHorizontal, Loader2, ZoomIn, ZoomOut, AudioWaveform, Check, X } from 'lucide-react';
+import { getTrackText, setTrackText, SubtitleTrack } from '../services/subtitleTracks';
+import { canInsertAfter, canSplitAt, deleteCue, insertCueAfter, mergeWithNext, setCueTiming, shiftAll, splitCue } from '../services/subtitleEditing';
+import { loadWaveform, WaveformData } from '../services/mediaAudioService';
+import { formatTimestamp } from '../services/timeUtils';
+import { alignSubtitles, AlignmentResult, detectSpeechSegments } from '../services/alignmentService';
+
+interface SubtitleEditorProps {
+  file: File | null; // No waveform (and no auto-align) without media
+  subtitles: Subtitle[];
+  tracks: [SubtitleTrack, SubtitleTrack]; // The two text layers edited inline
+  currentTimeMs: number;
+  onSeek: (ms: number) => void;
+  onChange: (subtitles: Subtitle[]) => void;
+}
+
+const ZOOM_LEVELS_MS = [10000, 30000, 60000, 120000];
+
+interface DragState {
+  id: number;
+  edge: 'start' | 'end';
+  startMs: number;
+  endMs: number;
+}
+
+const SubtitleEditor: React.FC<SubtitleEditorProps> = ({ file, subtitles, tracks, currentTimeMs, onSeek, onChange }) => {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [waveformError, setWaveformError] = useState<string | null>(null);
+  const [zoomIndex, setZoomIndex] = useState(1);
+  const [viewStartMs, setViewStartMs] = useState(0);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [shiftMs, setShiftMs] = useState('0');
+  const [alignment, setAlignment] = useState<AlignmentResult | null>(null);
+
+  const viewSpanMs = ZOOM_LEVELS_MS[zoomIndex];
+  const lastCueEnd = subtitles.length > 0 ? subtitles[subtitles.length - 1].endMs : 0;
+  const durationMs = waveform?.durationMs || lastCueEnd;
+  const selected = subtitles.find(s => s.id === selectedId) || null;
+
+  // --- WAVEFORM ---
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setWaveformError(null);
+    if (!file) {
+      setWaveformError("Link the media file to see the waveform.");
+      return;
+    }
+    loadWaveform(file)
+      .then(data => { if (!cancelled) setWaveform(data); })
+      .catch((error: Error) => { if (!cancelled) setWaveformError(error.message); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const draw = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const width = canvas.clientWidth * window.devicePixelRatio;
+      const height = canvas.clientHeight * window.devicePixelRatio;
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !waveform) return;
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = '#a5b4fc';
+      for (let x = 0; x < width; x++) {
+        const fromMs = viewStartMs + (x / width) * viewSpanMs;
+        const toMs = viewStartMs + ((x + 1) / width) * viewSpanMs;
+        let peak = 0;
+        for (let b = Math.floor(fromMs / waveform.bucketMs); b <= Math.floor(toMs / waveform.bucketMs); b++) {
+          if (b >= 0 && b < waveform.peaks.length && waveform.peaks[b] > peak) peak = waveform.peaks[b];
+        }
+        const barHeight = Math.max(1, peak * height);
+        ctx.fillRect(x, (height - barHeight) / 2, 1, barHeight);
+      }
+    };
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [waveform, viewStartMs, viewSpanMs]);
+
+  // Keep the playhead on screen while the video plays
+  useEffect(() => {
+    if (drag) return;
+    if (currentTimeMs < viewStartMs || currentTimeMs > viewStartMs + viewSpanMs) {
+      setViewStartMs(Math.max(0, currentTimeMs - viewSpanMs / 4));
+    }
+  }, [currentTimeMs, viewSpanMs]);
+
+  // --- GEOMETRY ---
+  const msToPercent = (ms: number) => ((ms - viewStartMs) / viewSpanMs) * 100;
+
+  const clientXToMs = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    return viewStartMs + ((clientX - rect.left) / rect.width) * viewSpanMs;
+  };
+
+  // --- BOUNDARY DRAGGING ---
+  const handleEdgePointerDown = (e: React.PointerEvent, sub: Subtitle, edge: 'start' | 'end') => {
+    e.stopPropagation();
+    if (alignment) return;
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setSelectedId(sub.id);
+    setDrag({ id: sub.id, edge, startMs: sub.startMs, endMs: sub.endMs });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const ms = Math.round(clientXToMs(e.clientX));
+    setDrag(drag.edge === 'start' ? { ...drag, startMs: ms } : { ...drag, endMs: ms });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    onChange(setCueTiming(subtitles, drag.id, drag.startMs, drag.endMs));
+    setDrag(null);
+  };
+
+  const cueBounds = (sub: Subtitle) =>
+    drag && drag.id === sub.id
+      ? setCueTiming(subtitles, sub.id, drag.startMs, drag.endMs).find(s => s.id === sub.id)!
+      : sub;
+
+  const selectCue = (sub: Subtitle) => {
+    setSelectedId(sub.id);
+    onSeek(sub.startMs);
+    listRef.current?.querySelector(`[data-cue-id="${sub.id}"]`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  // --- ACTIONS ---
+  const handleSplit = () => {
+    if (!selected) return;
+    onChange(splitCue(subtitles, selected.id, currentTimeMs));
+  };
+
+  const handleMerge = () => {
+    if (!selected) return;
+    onChange(mergeWithNext(subtitles, selected.id));
+  };
+
+  const handleInsert = () => {
+    const next = insertCueAfter(subtitles, selectedId, durationMs);
+    onChange(next);
+    setSelectedId(selectedId === null ? 1 : selectedId + 1);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onChange(deleteCue(subtitles, selected.id));
+    setSelectedId(null);
+  };
+
+  const handleShiftAll = () => {
+    const delta = Number(shiftMs);
+    if (!delta || isNaN(delta)) return;
+    onChange(shiftAll(subtitles, delta, waveform?.durationMs));
+    setShiftMs('0');
+  };
+
+  // Alignment is only proposed here; nothing changes until the diff is accepted
+  const handleAutoAlign = () => {
+    if (!waveform) return;
+    setAlignment(alignSubtitles(subtitles, detectSpeechSegments(waveform)));
+  };
+
+  const handleAcceptAlignment = () => {
+    if (!alignment) return;
+    onChange(alignment.subtitles);
+    setAlignment(null);
+  };
+
+  // Text is committed on blur so the cache is not rewritten on every keystroke
+  const handleTextBlur = (sub: Subtitle, track: SubtitleTrack, value: string) => {
+    if (value === getTrackText(sub, track)) return;
+    onChange(subtitles.map(s => s.id === sub.id ? setTrackText(s, track, value) : s));
+  };
+
+  const proposedCues = alignment
+    ? alignment.subtitles.filter(s => alignment.changes.some(c => c.id === s.id) && s.endMs >= viewStartMs && s.startMs <= viewStartMs + viewSpanMs)
+    : [];
+  const formatDelta = (ms: number) => `${ms > 0 ? '+' : ''}${ms} ms`;
+  const draggedCue = drag ? cueBounds(subtitles.find(s => s.id === drag.id)!) : null;
+  const visibleCues = subtitles.filter(s => s.endMs >= viewStartMs && s.startMs <= viewStartMs + viewSpanMs);
+  const toolButton = "flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-gray-200 text-gray-600 hover:bg-indigo-50 hover:text-indigo-600 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-600";
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={handleSplit} disabled={alignment !== null || !selected || !canSplitAt(selected, currentTimeMs)} className={toolButton} title="Split the selected cue at the playhead">
+          <Scissors className="w-3 h-3" /> Split
+        </button>
+        <button onClick={handleMerge} disabled={alignment !== null || !selected || selected.id === subtitles.length} className={toolButton} title="Merge the selected cue with the next one">
+          <Merge className="w-3 h-3" /> Merge
+        </button>
+        <button onClick={handleInsert} disabled={alignment !== null || !canInsertAfter(subtitles, selectedId, durationMs)} className={toolButton} title="Insert an empty cue after the selected one">
+          <Plus className="w-3 h-3" /> Insert
+        </button>
+        <button onClick={handleDelete} disabled={alignment !== null || !selected} className={toolButton} title="Delete the selected cue">
+          <Trash2 className="w-3 h-3" /> Delete
+        </button>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <MoveHorizontal className="w-3 h-3 text-gray-400" />
+          <input
+            type="number"
+            step={100}
+            value={shiftMs}
+            onChange={(e) => setShiftMs(e.target.value)}
+            className="w-20 text-xs border border-gray-200 rounded-md px-2 py-1"
+            title="Milliseconds (negative = earlier)"
+          />
+          <button onClick={handleShiftAll} disabled={alignment !== null} className={toolButton}>Shift all (ms)</button>
+        </div>
+
+        <button onClick={handleAutoAlign} disabled={!waveform || alignment !== null || subtitles.length === 0} className={toolButton} title="Snap cue boundaries to detected speech">
+          <AudioWaveform className="w-3 h-3" /> Auto-align
+        </button>
+
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoomIndex(Math.max(0, zoomIndex - 1))} disabled={zoomIndex === 0} className={toolButton} title="Zoom in">
+            <ZoomIn className="w-3 h-3" />
+          </button>
+          <button onClick={() => setZoomIndex(Math.min(ZOOM_LEVELS_MS.length - 1, zoomIndex + 1))} disabled={zoomIndex === ZOOM_LEVELS_MS.length - 1} className={toolButton} title="Zoom out">
+            <ZoomOut className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      {/* Timeline Strip */}
+      <div
+        ref={stripRef}
+        className="relative h-24 bg-gray-900 rounded-lg overflow-hidden select-none cursor-pointer"
+        onClick={(e) => onSeek(Math.max(0, clientXToMs(e.clientX)))}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full opacity-70" />
+        {!waveform && (
+          <div className="absolute top-1 left-2 flex items-center gap-1 text-[10px] text-gray-400">
+            {waveformError ? waveformError : <><Loader2 className="w-3 h-3 animate-spin" /> Decoding waveform...</>}
+          </div>
+        )}
+
+        {visibleCues.map(sub => {
+          const bounds = cueBounds(sub);
+          const isSelected = sub.id === selectedId;
+          return (
+            <div
+              key={sub.id}
+              className={`absolute top-6 bottom-2 rounded border text-[10px] leading-tight px-2 overflow-hidden ${isSelected ? 'bg-indigo-500/40 border-indigo-300 text-white' : 'bg-white/10 border-white/30 text-gray-200 hover:bg-white/20'}`}
+              style={{ left: `${msToPercent(bounds.startMs)}%`, width: `${msToPercent(bounds.endMs) - msToPercent(bounds.startMs)}%` }}
+              onClick={(e) => { e.stopPropagation(); selectCue(sub); }}
+            >
+              <div className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-indigo-300/60 hover:bg-indigo-200" onPointerDown={(e) => handleEdgePointerDown(e, sub, 'start')} />
+              <span className="block truncate pt-1">{sub.textOriginal}</span>
+              <div className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-indigo-300/60 hover:bg-indigo-200" onPointerDown={(e) => handleEdgePointerDown(e, sub, 'end')} />
+            </div>
+          );
+        })}
+
+        {proposedCues.map(sub => (
+          <div
+            key={`proposed-${sub.id}`}
+            className="absolute top-5 bottom-1 rounded border-2 border-dashed border-emerald-400 pointer-events-none"
+            style={{ left: `${msToPercent(sub.startMs)}%`, width: `${msToPercent(sub.endMs) - msToPercent(sub.startMs)}%` }}
+          />
+        ))}
+
+        <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none" style={{ left: `${msToPercent(currentTimeMs)}%` }} />
+        <div className="absolute top-1 right-2 text-[10px] font-mono text-gray-400 pointer-events-none">
+          {draggedCue ? `${formatTimestamp(draggedCue.startMs)} → ${formatTimestamp(draggedCue.endMs)}` : formatTimestamp(currentTimeMs)}
+        </div>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, durationMs - viewSpanMs)}
+        step={100}
+        value={Math.min(viewStartMs, Math.max(0, durationMs - viewSpanMs))}
+        onChange={(e) => setViewStartMs(Number(e.target.value))}
+        className="w-full accent-indigo-600"
+      />
+
+      {/* Alignment Review (before → after) */}
+      {alignment && (
+        <div className="border border-emerald-200 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-emerald-50 text-sm">
+            <span className="text-emerald-800">
+              {alignment.changes.length === 0
+                ? `No boundaries moved (${alignment.segmentCount} speech regions found).`
+                : `${alignment.changes.length} of ${subtitles.length} cues adjusted using ${alignment.segmentCount} speech regions.`}
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => setAlignment(null)} className="flex items-center gap-1 px-2 py-1 text-xs rounded-md border border-gray-300 bg-white text-gray-600 hover:bg-gray-50">
+                <X className="w-3 h-3" /> Reject
+              </button>
+              <button onClick={handleAcceptAlignment} disabled={alignment.changes.length === 0} className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40">
+                <Check className="w-3 h-3" /> Accept
+              </button>
+            </div>
+          </div>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar divide-y divide-gray-100 text-xs">
+            {alignment.changes.map(change => (
+              <div key={change.id} className="grid grid-cols-12 gap-2 px-3 py-2 hover:bg-gray-50 cursor-pointer" onClick={() => onSeek(change.after.startMs)}>
+                <span className="col-span-4 truncate text-gray-700" title={change.text}>{change.text}</span>
+                <span className="col-span-4 font-mono text-gray-400 line-through">{formatTimestamp(change.before.startMs)} – {formatTimestamp(change.before.endMs)}</span>
+                <span className="col-span-4 font-mono text-emerald-700">
+                  {formatTimestamp(change.after.startMs)} – {formatTimestamp(change.after.endMs)}
+                  <span className="block text-[10px] text-gray-400">
+                    {formatDelta(change.after.startMs - change.before.startMs)} / {formatDelta(change.after.endMs - change.before.endMs)}
+                  </span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Cue List */}
+      <div ref={listRef} className={`h-64 overflow-y-auto custom-scrollbar text-sm space-y-1 pr-2 ${alignment ? 'hidden' : ''}`}>
+        {subtitles.map(sub => (
+          <div
+            key={sub.id}
+            data-cue-id={sub.id}
+            onClick={() => setSelectedId(sub.id)}
+            className={`grid grid-cols-12 gap-3 p-2 rounded-lg border transition-colors ${sub.id === selectedId ? 'border-indigo-200 bg-indigo-50/60' : 'border-transparent hover:bg-gray-50'}`}
+          >
+            <button
+              onClick={() => selectCue(sub)}
+              className="col-span-3 text-left text-gray-400 font-mono text-[11px] hover:text-indigo-600 pt-1"
+            >
+              {formatTimestamp(sub.startMs)}<br />{formatTimestamp(sub.endMs)}
+            </button>
+            <div className="col-span-9 flex flex-col gap-1">
+              {tracks.map((track, slot) => (
+                <textarea
+                  key={`${slot}-${getTrackText(sub, track)}`}
+                  defaultValue={getTrackText(sub, track)}
+                  onBlur={(e) => handleTextBlur(sub, track, e.target.value)}
+                  rows={1}
+                  placeholder={track.label}
+                  className={`w-full resize-none bg-transparent rounded px-1 py-0.5 border border-transparent focus:border-indigo-200 focus:bg-white focus:outline-none ${slot === 0 ? 'text-gray-900 font-medium' : 'text-indigo-600 italic'}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleEditor;
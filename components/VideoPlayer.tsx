@@ -1,6 +1,11 @@
 import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
 import { Subtitle } from '../types';
-import { getTTSAudio } from '../services/geminiService';
+import { getSpeech, loadVoicePreference, saveVoicePreference } from '../services/ttsCacheService';
+import { getTrackText, SubtitleTrack } from '../services/subtitleTracks';
+import InteractiveText from './InteractiveText';
+import { WordSelection } from './DefinitionPopover';
+import { findActiveCueIndex, findLineIndexBefore } from '../services/cueLookup';
+import { formatShortcutKey, getShortcutKey, registerShortcuts } from '../services/shortcutService';
 import { 
   Captions, 
   Loader2, 
@@ -14,27 +19,31 @@ import {
   Headphones, 
   Check,
   ChevronRight,
-  ChevronLeft
+  ChevronLeft,
+  Gauge,
+  Repeat,
+  CirclePause,
+  X
 } from 'lucide-react';
 
 interface VideoPlayerProps {
   src: string;
   subtitles: Subtitle[];
   onTimeUpdate?: (time: number) => void;
+  captionTracks: [SubtitleTrack, SubtitleTrack]; // Top and bottom caption lines
+  targetLangCode: string; // BCP-47, e.g. 'vi-VN'; the voice engine setting applies to this language
+  onWordSelect?: (selection: WordSelection) => void; // Captions become clickable words when set
+  markers?: number[]; // Search hits (ms), drawn as ticks on the seek bar
 }
 
 export interface VideoPlayerRef {
   seekTo: (seconds: number) => void;
+  pause: () => void;
+  getCurrentTimeMs: () => number;
+  playSegment: (startMs: number, endMs: number) => Promise<void>; // Resolves once paused at endMs (or by the user)
   playAudioManual: (text: string, lang?: string) => void;
 }
 
-const parseTime = (timeStr: string): number => {
-  const parts = timeStr.split(':').map(Number);
-  if (parts.length === 3) return parts[0] * 3600 + parts[1] * 60 + parts[2];
-  if (parts.length === 2) return parts[0] * 60 + parts[1];
-  return 0;
-};
-
 const formatTime = (seconds: number): string => {
   const h = Math.floor(seconds / 3600);
   const m = Math.floor((seconds % 3600) / 60);
@@ -43,6 +52,9 @@ const formatTime = (seconds: number): string => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
+const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 1.75, 2];
+const REPEAT_COUNTS = [0, 2, 3, 5, Infinity]; // 0 = off; Infinity = until turned off
+
 // Available Gemini Voices
 const GEMINI_VOICES = [
   { name: 'Kore (Female - Warm)', id: 'Kore' },
@@ -52,7 +64,7 @@ const GEMINI_VOICES = [
   { name: 'Zephyr (Female - Soft)', id: 'Zephyr' },
 ];
 
-const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitles, onTimeUpdate }, ref) => {
+const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitles, onTimeUpdate, captionTracks, targetLangCode, onWordSelect, markers }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   
@@ -61,7 +73,6 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
   const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
   const onlineAudioRef = useRef<HTMLAudioElement | null>(null);
-  const audioCache = useRef<Map<string, AudioBuffer>>(new Map());
 
   // Player State
   const [isPlaying, setIsPlaying] = useState(false);
@@ -76,9 +87,16 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
   const [voiceMode, setVoiceMode] = useState<'LOCAL' | 'FREE_HQ' | 'GEMINI'>('FREE_HQ');
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [selectedLocalVoiceURI, setSelectedLocalVoiceURI] = useState<string>('');
-  const [selectedGeminiVoice, setSelectedGeminiVoice] = useState<string>('Kore');
+  const [selectedGeminiVoice, setSelectedGeminiVoice] = useState<string>(loadVoicePreference);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [settingsMenu, setSettingsMenu] = useState<'MAIN' | 'VOICE_MODE' | 'VOICE_SELECT'>('MAIN');
+  const [settingsMenu, setSettingsMenu] = useState<'MAIN' | 'VOICE_MODE' | 'VOICE_SELECT' | 'SPEED' | 'REPEAT'>('MAIN');
+
+  // Study Playback State
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [repeatCount, setRepeatCount] = useState(0); // Plays of each line before moving on
+  const [isAutoPause, setIsAutoPause] = useState(false);
+  const [loopA, setLoopA] = useState<number | null>(null); // Seconds
+  const [loopB, setLoopB] = useState<number | null>(null);
 
   const [currentSub, setCurrentSub] = useState<Subtitle | null>(null);
   const [showSubs, setShowSubs] = useState(true);
@@ -89,6 +107,11 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
   const lastPlayedSubId = useRef<number | null>(null);
   // CHANGED: Use number instead of NodeJS.Timeout for browser compatibility
   const controlsTimeoutRef = useRef<number | null>(null);
+  // Pending playSegment(): polled every frame, since timeupdate fires only ~4 times a second
+  const segmentFrameRef = useRef<number | null>(null);
+  const segmentDoneRef = useRef<(() => void) | null>(null);
+  // Line the playhead is in and how often it has been played, for repeat / auto-pause
+  const lineWatchRef = useRef<{ sub: Subtitle; plays: number } | null>(null);
 
   // --- INITIALIZATION ---
   useEffect(() => {
@@ -102,24 +125,25 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
   }, []);
 
   useEffect(() => {
+    const targetPrefix = targetLangCode.split('-')[0];
     const loadVoices = () => {
       const availVoices = window.speechSynthesis.getVoices();
       if (availVoices.length > 0) {
         const sorted = availVoices.sort((a, b) => {
-            const scoreA = (a.name.includes('Neural') || a.name.includes('Natural') ? 20 : 0) + (a.lang.includes('vi') ? 10 : 0);
-            const scoreB = (b.name.includes('Neural') || b.name.includes('Natural') ? 20 : 0) + (b.lang.includes('vi') ? 10 : 0);
+            const scoreA = (a.name.includes('Neural') || a.name.includes('Natural') ? 20 : 0) + (a.lang.startsWith(targetPrefix) ? 10 : 0);
+            const scoreB = (b.name.includes('Neural') || b.name.includes('Natural') ? 20 : 0) + (b.lang.startsWith(targetPrefix) ? 10 : 0);
             return scoreB - scoreA;
         });
         setVoices(sorted);
-        const bestVn = sorted.find(v => v.lang.includes('vi'));
-        setSelectedLocalVoiceURI(bestVn ? bestVn.voiceURI : sorted[0]?.voiceURI || '');
+        const bestTarget = sorted.find(v => v.lang.startsWith(targetPrefix));
+        setSelectedLocalVoiceURI(bestTarget ? bestTarget.voiceURI : sorted[0]?.voiceURI || '');
       }
     };
     loadVoices();
     if (window.speechSynthesis.onvoiceschanged !== undefined) {
       window.speechSynthesis.onvoiceschanged = loadVoices;
     }
-  }, []);
+  }, [targetLangCode]);
 
   useEffect(() => {
     const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
@@ -127,6 +151,17 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
+  // Pitch is preserved so slowed-down speech still sounds like the speaker
+  useEffect(() => {
+    const video = videoRef.current as (HTMLVideoElement & { webkitPreservesPitch?: boolean; mozPreservesPitch?: boolean }) | null;
+    if (!video) return;
+    video.preservesPitch = true;
+    video.webkitPreservesPitch = true;
+    video.mozPreservesPitch = true;
+    video.defaultPlaybackRate = playbackRate;
+    video.playbackRate = playbackRate;
+  }, [playbackRate, src]);
+
   // --- AUDIO LOGIC ---
   const setDucking = (active: boolean) => {
       if (videoRef.current) videoRef.current.volume = active ? (isMuted ? 0 : 0.1) : (isMuted ? 0 : volume);
@@ -143,17 +178,10 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
 
   const playGeminiAudio = async (text: string, onEnd: () => void) => {
       if (!audioContextRef.current || !gainNodeRef.current) return;
-      const cacheKey = `${text}-${selectedGeminiVoice}`;
       try {
-        let buffer: AudioBuffer;
-        if (audioCache.current.has(cacheKey)) {
-            buffer = audioCache.current.get(cacheKey)!;
-        } else {
-            setLoadingAudio(true);
-            buffer = await getTTSAudio(text, selectedGeminiVoice, audioContextRef.current);
-            audioCache.current.set(cacheKey, buffer);
-            setLoadingAudio(false);
-        }
+        setLoadingAudio(true);
+        const buffer = await getSpeech(text, selectedGeminiVoice, targetLangCode, audioContextRef.current);
+        setLoadingAudio(false);
         if (audioContextRef.current.state === 'suspended') await audioContextRef.current.resume();
         const source = audioContextRef.current.createBufferSource();
         source.buffer = buffer;
@@ -163,7 +191,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
         source.start();
       } catch (error) {
           setLoadingAudio(false);
-          playFreeHQAudio(text, 'vi-VN', onEnd);
+          playFreeHQAudio(text, targetLangCode, onEnd);
       }
   };
 
@@ -180,7 +208,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
 
   const playLocalAudio = (text: string, langHint: string, onEnd: () => void) => {
     const utterance = new SpeechSynthesisUtterance(text);
-    if (langHint !== 'vi-VN') {
+    if (langHint !== targetLangCode) {
         const specificVoice = voices.find(v => v.lang.startsWith(langHint.split('-')[0]));
         if (specificVoice) utterance.voice = specificVoice;
     } else {
@@ -193,14 +221,14 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
     window.speechSynthesis.speak(utterance);
   };
 
-  const speakText = (text: string, isManual: boolean, langHint: string = 'vi-VN') => {
+  const speakText = (text: string, isManual: boolean, langHint: string = targetLangCode) => {
     stopAllAudio();
     if (speakingText === text && isManual) return;
     setSpeakingText(text);
     setDucking(true);
     const onEnd = () => { setSpeakingText(null); setDucking(false); };
 
-    if (langHint !== 'vi-VN') { playFreeHQAudio(text, langHint, onEnd); return; }
+    if (langHint !== targetLangCode) { playFreeHQAudio(text, langHint, onEnd); return; }
 
     switch (voiceMode) {
         case 'GEMINI': playGeminiAudio(text, onEnd); break;
@@ -213,11 +241,137 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
     seekTo: (seconds: number) => {
       if (videoRef.current) {
         videoRef.current.currentTime = seconds;
-        videoRef.current.play();
+        videoRef.current.play().catch(() => {}); // Autoplay may be blocked outside a click
         stopAllAudio();
       }
     },
-    playAudioManual: (text: string, lang: string = 'vi-VN') => speakText(text, true, lang)
+    pause: () => {
+      videoRef.current?.pause();
+      stopAllAudio();
+    },
+    getCurrentTimeMs: () => Math.round((videoRef.current?.currentTime || 0) * 1000),
+    playSegment: (startMs: number, endMs: number) => new Promise<void>((resolve) => {
+      const video = videoRef.current;
+      if (!video) { resolve(); return; }
+      finishSegment();
+      stopAllAudio();
+      segmentDoneRef.current = resolve;
+      video.currentTime = startMs / 1000;
+      video.play().catch(() => finishSegment());
+
+      const poll = () => {
+        if (video.paused || video.currentTime * 1000 >= endMs) {
+          video.pause();
+          finishSegment();
+          return;
+        }
+        segmentFrameRef.current = requestAnimationFrame(poll);
+      };
+      segmentFrameRef.current = requestAnimationFrame(poll);
+    }),
+    playAudioManual: (text: string, lang: string = targetLangCode) => speakText(text, true, lang)
+  }));
+
+  const finishSegment = () => {
+    if (segmentFrameRef.current !== null) cancelAnimationFrame(segmentFrameRef.current);
+    segmentFrameRef.current = null;
+    const done = segmentDoneRef.current;
+    segmentDoneRef.current = null;
+    if (done) done();
+  };
+
+  useEffect(() => finishSegment, []);
+
+  // --- STUDY PLAYBACK ---
+  // Line boundaries are watched every frame while playing; timeupdate is too coarse to stop on a cue
+  useEffect(() => {
+    const watchLines = repeatCount > 0 || isAutoPause;
+    const hasLoop = loopA !== null && loopB !== null;
+    if (!isPlaying || (!watchLines && !hasLoop)) return;
+
+    let frame: number;
+    const watch = () => {
+      const video = videoRef.current;
+      if (!video) return;
+      frame = requestAnimationFrame(watch);
+      if (segmentDoneRef.current) return; // playSegment() is in charge
+
+      const time = video.currentTime;
+      if (hasLoop && time >= loopB!) {
+        video.currentTime = loopA!;
+        lineWatchRef.current = null;
+        return;
+      }
+      if (!watchLines) return;
+
+      const watched = lineWatchRef.current;
+      const timeMs = time * 1000;
+      if (watched && timeMs >= watched.sub.endMs && timeMs < watched.sub.endMs + 1000) {
+        if (watched.plays < repeatCount) {
+          watched.plays++;
+          lastPlayedSubId.current = null; // Auto-dub reads the line again
+          video.currentTime = watched.sub.startMs / 1000;
+          return;
+        }
+        lineWatchRef.current = null;
+        if (isAutoPause) {
+          video.pause();
+          return;
+        }
+      }
+
+      const activeIndex = findActiveCueIndex(subtitles, timeMs);
+      const sub = activeIndex !== -1 && timeMs < subtitles[activeIndex].endMs ? subtitles[activeIndex] : undefined;
+      if (sub && sub.id !== lineWatchRef.current?.sub.id) lineWatchRef.current = { sub, plays: 1 };
+      else if (!sub && watched && (timeMs < watched.sub.startMs || timeMs >= watched.sub.endMs + 1000)) lineWatchRef.current = null;
+    };
+    frame = requestAnimationFrame(watch);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, repeatCount, isAutoPause, loopA, loopB, subtitles]);
+
+  // Set A, set B, clear
+  const cycleLoop = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const time = video.currentTime;
+    if (loopA === null) {
+      setLoopA(time);
+    } else if (loopB === null) {
+      if (Math.abs(time - loopA) < 0.2) return; // Too short to loop
+      setLoopA(Math.min(loopA, time));
+      setLoopB(Math.max(loopA, time));
+    } else {
+      clearLoop();
+    }
+  };
+
+  const clearLoop = () => { setLoopA(null); setLoopB(null); };
+
+  const formatRepeat = (count: number) => count === 0 ? 'Off' : count === Infinity ? 'Forever' : `${count}×`;
+
+  // --- KEYBOARD ---
+  // Index of the line at or just before the playhead (-1 before the first line)
+  const lineIndexAt = (timeMs: number) => findLineIndexBefore(subtitles, timeMs + 50);
+
+  const seekToLine = (index: number) => {
+    const sub = subtitles[index];
+    if (!sub || !videoRef.current) return;
+    stopAllAudio();
+    lastPlayedSubId.current = null;
+    videoRef.current.currentTime = sub.startMs / 1000 + 0.001;
+  };
+
+  useEffect(() => registerShortcuts({
+    playPause: () => togglePlay(),
+    prevLine: () => seekToLine(Math.max(0, lineIndexAt((videoRef.current?.currentTime || 0) * 1000) - 1)),
+    nextLine: () => seekToLine(lineIndexAt((videoRef.current?.currentTime || 0) * 1000) + 1),
+    replayLine: () => {
+      seekToLine(Math.max(0, lineIndexAt((videoRef.current?.currentTime || 0) * 1000)));
+      videoRef.current?.play().catch(() => {});
+    },
+    toggleCaptions: () => setShowSubs(!showSubs),
+    toggleAutoDub: () => toggleAutoDub(),
+    abLoop: () => cycleLoop(),
   }));
 
   // --- PLAYER CONTROLS LOGIC ---
@@ -234,21 +388,34 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
       setCurrentTime(time);
       if (onTimeUpdate) onTimeUpdate(time);
 
-      const activeSubIndex = subtitles.findIndex(sub => {
-        const start = parseTime(sub.startTime);
-        const end = parseTime(sub.endTime);
-        return time >= start && time <= end;
-      });
+      const timeMs = time * 1000;
+      const activeSubIndex = findActiveCueIndex(subtitles, timeMs);
       const activeSub = activeSubIndex !== -1 ? subtitles[activeSubIndex] : null;
 
       if (activeSub && isAutoDub && activeSub.id !== lastPlayedSubId.current) {
          lastPlayedSubId.current = activeSub.id;
-         speakText(activeSub.textVietnamese, false, 'vi-VN');
+         // Auto-dub reads the bottom caption track
+         speakText(getTrackText(activeSub, captionTracks[1]), false, captionTracks[1].langCode);
       }
       setCurrentSub(activeSub || null);
     }
   };
 
+  // Picking a word pauses playback so the popover has the learner's attention
+  const handleWordSelect = (term: string, anchor: DOMRect, sentence: string) => {
+    if (!currentSub || !onWordSelect || !videoRef.current) return;
+    videoRef.current.pause();
+    stopAllAudio();
+    onWordSelect({
+      term,
+      sentence,
+      context: currentSub.textOriginal,
+      timestampMs: Math.round(videoRef.current.currentTime * 1000),
+      anchor,
+    });
+  };
+
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
       const time = Number(e.target.value);
       if (videoRef.current) {
@@ -267,6 +434,12 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
       }
   };
 
+  const toggleAutoDub = () => {
+      const newState = !isAutoDub;
+      setIsAutoDub(newState);
+      if (!newState) stopAllAudio();
+  };
+
   const toggleMute = () => {
       if (videoRef.current) {
           const newMuted = !isMuted;
@@ -307,7 +480,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                             <span>Voice Engine</span>
                         </div>
                         <div className="flex items-center gap-1 text-gray-400">
-                            <span className="text-xs">{voiceMode === 'GEMINI' ? 'Gemini AI' : voiceMode === 'FREE_HQ' ? 'Google HQ' : 'Local'}</span>
+                            <span className="text-xs">{voiceMode === 'GEMINI' ? 'AI Provider' : voiceMode === 'FREE_HQ' ? 'Google HQ' : 'Local'}</span>
                             <ChevronRight className="w-4 h-4" />
                         </div>
                     </button>
@@ -323,6 +496,101 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                             <ChevronRight className="w-4 h-4 text-gray-400" />
                         </button>
                     )}
+                    <div className="h-px bg-white/10 my-1"></div>
+                    <button 
+                        onClick={() => setSettingsMenu('SPEED')}
+                        className="w-full px-4 py-3 flex items-center justify-between hover:bg-white/10 transition-colors text-sm text-white"
+                    >
+                        <div className="flex items-center gap-3">
+                            <Gauge className="w-4 h-4 text-gray-400" />
+                            <span>Playback Speed</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                            <span className="text-xs">{playbackRate === 1 ? 'Normal' : `${playbackRate}×`}</span>
+                            <ChevronRight className="w-4 h-4" />
+                        </div>
+                    </button>
+                    <button 
+                        onClick={() => setSettingsMenu('REPEAT')}
+                        className="w-full px-4 py-3 flex items-center justify-between hover:bg-white/10 transition-colors text-sm text-white"
+                    >
+                        <div className="flex items-center gap-3">
+                            <Repeat className="w-4 h-4 text-gray-400" />
+                            <span>Repeat Each Line</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                            <span className="text-xs">{formatRepeat(repeatCount)}</span>
+                            <ChevronRight className="w-4 h-4" />
+                        </div>
+                    </button>
+                    <button 
+                        onClick={() => setIsAutoPause(!isAutoPause)}
+                        className="w-full px-4 py-3 flex items-center justify-between hover:bg-white/10 transition-colors text-sm text-white"
+                    >
+                        <div className="flex items-center gap-3">
+                            <CirclePause className="w-4 h-4 text-gray-400" />
+                            <span>Auto-pause After Line</span>
+                        </div>
+                        <span className={`w-8 h-4 rounded-full relative transition-colors ${isAutoPause ? 'bg-indigo-500' : 'bg-white/20'}`}>
+                            <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${isAutoPause ? 'left-4' : 'left-0.5'}`}></span>
+                        </span>
+                    </button>
+                    <div className="px-4 py-3 flex items-center justify-between text-sm text-white">
+                        <div className="flex items-center gap-3">
+                            <span className="w-4 text-center text-[10px] font-bold text-gray-400">A-B</span>
+                            <span>Loop</span>
+                        </div>
+                        {loopA === null ? (
+                            <span className="text-xs text-gray-500">Press {formatShortcutKey(getShortcutKey('abLoop'))} to set A</span>
+                        ) : loopB === null ? (
+                            <span className="text-xs text-yellow-300 font-mono">{formatTime(loopA)} → press {formatShortcutKey(getShortcutKey('abLoop'))}</span>
+                        ) : (
+                            <span className="flex items-center gap-1 text-xs text-yellow-300 font-mono">
+                                {formatTime(loopA)}–{formatTime(loopB)}
+                                <button onClick={clearLoop} className="p-0.5 rounded hover:bg-white/10 text-gray-400 hover:text-white" title="Clear loop">
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </span>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {settingsMenu === 'SPEED' && (
+                <div className="py-2 max-h-72 overflow-y-auto custom-scrollbar">
+                    <div className="px-4 py-2 flex items-center gap-2 border-b border-white/10 mb-1 cursor-pointer sticky top-0 bg-[#0f0f0f] z-10" onClick={() => setSettingsMenu('MAIN')}>
+                        <ChevronLeft className="w-4 h-4 text-gray-400" />
+                        <span className="text-sm font-bold text-white">Playback Speed</span>
+                    </div>
+                    {PLAYBACK_RATES.map(rate => (
+                        <button 
+                            key={rate}
+                            onClick={() => { setPlaybackRate(rate); setSettingsMenu('MAIN'); }}
+                            className="w-full px-4 py-2 flex items-center gap-3 hover:bg-white/10 transition-colors text-left text-sm text-white"
+                        >
+                            {playbackRate === rate && <Check className="w-4 h-4 text-indigo-400" />}
+                            <span className={playbackRate !== rate ? 'pl-7' : ''}>{rate === 1 ? 'Normal' : `${rate}×`}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {settingsMenu === 'REPEAT' && (
+                <div className="py-2">
+                    <div className="px-4 py-2 flex items-center gap-2 border-b border-white/10 mb-1 cursor-pointer" onClick={() => setSettingsMenu('MAIN')}>
+                        <ChevronLeft className="w-4 h-4 text-gray-400" />
+                        <span className="text-sm font-bold text-white">Repeat Each Line</span>
+                    </div>
+                    {REPEAT_COUNTS.map(count => (
+                        <button 
+                            key={count}
+                            onClick={() => { setRepeatCount(count); lineWatchRef.current = null; setSettingsMenu('MAIN'); }}
+                            className="w-full px-4 py-2 flex items-center gap-3 hover:bg-white/10 transition-colors text-left text-sm text-white"
+                        >
+                            {repeatCount === count && <Check className="w-4 h-4 text-indigo-400" />}
+                            <span className={repeatCount !== count ? 'pl-7' : ''}>{formatRepeat(count)}</span>
+                        </button>
+                    ))}
                 </div>
             )}
 
@@ -335,7 +603,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                     {[
                         { id: 'FREE_HQ', label: 'Google Translate (Free HQ)', desc: 'Natural & Fast (Online)' },
                         { id: 'LOCAL', label: 'System Voice (Offline)', desc: 'No internet needed' },
-                        { id: 'GEMINI', label: 'Gemini AI (Premium)', desc: 'Most human-like (API)' }
+                        { id: 'GEMINI', label: 'AI Provider (Premium)', desc: 'Most human-like (uses selected provider)' }
                     ].map((mode) => (
                         <button 
                             key={mode.id}
@@ -362,7 +630,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                         GEMINI_VOICES.map(v => (
                              <button 
                                 key={v.id}
-                                onClick={() => { setSelectedGeminiVoice(v.id); setSettingsMenu('MAIN'); }}
+                                onClick={() => { setSelectedGeminiVoice(v.id); saveVoicePreference(v.id); setSettingsMenu('MAIN'); }}
                                 className="w-full px-4 py-2 flex items-center gap-3 hover:bg-white/10 transition-colors text-left text-sm text-white"
                             >
                                 {selectedGeminiVoice === v.id && <Check className="w-4 h-4 text-indigo-400" />}
@@ -387,6 +655,34 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
     );
   };
 
+  // Plain captions read the line aloud on click; with click-to-define the words are
+  // selectable and reading aloud moves to a small speaker button
+  const renderCaptionLine = (text: string, langCode: string, className: string) => {
+    const isLoading = loadingAudio && speakingText === text;
+    if (!onWordSelect) {
+        return (
+            <button onClick={(e) => { e.stopPropagation(); speakText(text, true, langCode); }} className={`pointer-events-auto ${className}`}>
+                {isLoading ? <span className="flex items-center gap-2 justify-center"><Loader2 className="w-5 h-5 animate-spin" />{text}</span> : text}
+            </button>
+        );
+    }
+    return (
+        <div className={`pointer-events-auto flex items-center gap-2 ${className}`}>
+            <button
+                onClick={(e) => { e.stopPropagation(); speakText(text, true, langCode); }}
+                className="shrink-0 opacity-60 hover:opacity-100 transition-opacity"
+                title="Read aloud"
+            >
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Volume2 className="w-4 h-4" />}
+            </button>
+            <InteractiveText text={text} onSelect={(term, anchor) => handleWordSelect(term, anchor, text)} />
+        </div>
+    );
+  };
+
+  const topText = currentSub ? getTrackText(currentSub, captionTracks[0]) : '';
+  const bottomText = currentSub ? getTrackText(currentSub, captionTracks[1]) : '';
+
   return (
     <div 
         ref={containerRef} 
@@ -410,20 +706,16 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
       {showSubs && currentSub && (
         <div className={`absolute bottom-20 left-0 right-0 flex flex-col items-center justify-end px-4 pb-2 z-20 pointer-events-none transition-all duration-300 ${showControls ? '-translate-y-4' : 'translate-y-0'}`}>
              <div className="flex flex-col items-center gap-1.5 transition-all">
-                <button
-                    onClick={(e) => { e.stopPropagation(); speakText(currentSub.textOriginal, true, 'en-US'); }}
-                    className="pointer-events-auto bg-black/60 hover:bg-black/80 backdrop-blur-[2px] px-2 py-0.5 rounded text-white/90 text-sm md:text-base font-medium transition-colors text-center max-w-[90%] md:max-w-[70%]"
-                >
-                    {currentSub.textOriginal}
-                </button>
-                <button
-                    onClick={(e) => { e.stopPropagation(); speakText(currentSub.textVietnamese, true, 'vi-VN'); }}
-                    className="pointer-events-auto bg-black/75 hover:bg-black/90 backdrop-blur-[2px] px-3 py-1 rounded-md text-yellow-300 text-lg md:text-2xl font-semibold shadow-sm transition-colors text-center max-w-[95%] md:max-w-[80%] leading-relaxed"
-                >
-                    {loadingAudio && speakingText === currentSub.textVietnamese ? (
-                        <span className="flex items-center gap-2 justify-center"><Loader2 className="w-5 h-5 animate-spin" />{currentSub.textVietnamese}</span>
-                    ) : currentSub.textVietnamese}
-                </button>
+                {topText && renderCaptionLine(
+                    topText,
+                    captionTracks[0].langCode,
+                    "bg-black/60 hover:bg-black/80 backdrop-blur-[2px] px-2 py-0.5 rounded text-white/90 text-sm md:text-base font-medium transition-colors text-center max-w-[90%] md:max-w-[70%]"
+                )}
+                {bottomText && renderCaptionLine(
+                    bottomText,
+                    captionTracks[1].langCode,
+                    "bg-black/75 hover:bg-black/90 backdrop-blur-[2px] px-3 py-1 rounded-md text-yellow-300 text-lg md:text-2xl font-semibold shadow-sm transition-colors text-center max-w-[95%] md:max-w-[80%] leading-relaxed"
+                )}
              </div>
         </div>
       )}
@@ -444,6 +736,21 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                 onChange={handleSeek}
                 className="absolute w-full h-1 bg-white/30 rounded-full appearance-none cursor-pointer z-20 hover:h-1.5 transition-all [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-red-600 [&::-webkit-slider-thumb]:opacity-0 group-hover/progress:[&::-webkit-slider-thumb]:opacity-100"
             />
+            {/* Search Hit Markers */}
+            {markers && duration > 0 && markers.map(ms => (
+                <div
+                    key={ms}
+                    className="absolute top-1/2 -translate-y-1/2 w-0.5 h-2.5 bg-yellow-300 z-10 pointer-events-none"
+                    style={{ left: `${Math.min(100, (ms / 1000 / duration) * 100)}%` }}
+                ></div>
+            ))}
+            {/* A-B Loop Region */}
+            {loopA !== null && duration > 0 && (
+                <div
+                    className="absolute top-1/2 -translate-y-1/2 h-2 bg-yellow-400/50 rounded-sm z-10 pointer-events-none"
+                    style={{ left: `${(loopA / duration) * 100}%`, width: loopB !== null ? `${((loopB - loopA) / duration) * 100}%` : '2px' }}
+                ></div>
+            )}
             {/* Progress Visuals (since range input styling is limited) */}
             <div className="absolute top-1/2 -translate-y-1/2 left-0 h-1 bg-red-600 rounded-full z-10 pointer-events-none group-hover/progress:h-1.5 transition-all" style={{ width: `${(currentTime / duration) * 100}%` }}></div>
         </div>
@@ -480,7 +787,7 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(({ src, subtitl
                 
                 {/* Auto Dub Toggle */}
                 <button 
-                    onClick={() => { const newState = !isAutoDub; setIsAutoDub(newState); if(!newState) stopAllAudio(); }}
+                    onClick={toggleAutoDub}
                     className={`relative p-2 rounded-lg transition-all ${isAutoDub ? 'text-indigo-400' : 'text-white hover:bg-white/10'}`}
                     title="Auto-Dub (AI Voiceover)"
                 >
@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { VocabularyEntry, VocabularySource } from '../types';
+import { ArrowLeft, BookOpen, Search, Plus, Pencil, Trash2, PlayCircle, Tag, X, Check, Loader2 } from 'lucide-react';
+import { createVocabularyEntry, deleteVocabularyEntry, getVocabulary, parseTags, saveVocabularyEntry } from '../services/vocabularyService';
+import { DEFAULT_TARGET_LANGUAGE, LANGUAGES } from '../services/languages';
+import { formatTime } from '../services/timeUtils';
+
+interface VocabularyViewProps {
+  onBack: () => void;
+  onJumpTo: (source: VocabularySource) => void;
+}
+
+interface EntryDraft {
+  term: string;
+  definition: string;
+  targetLanguage: string;
+  tags: string;
+}
+
+const emptyDraft = (): EntryDraft => ({
+  term: '',
+  definition: '',
+  targetLanguage: localStorage.getItem('target_language') || DEFAULT_TARGET_LANGUAGE,
+  tags: '',
+});
+
+const VocabularyView: React.FC<VocabularyViewProps> = ({ onBack, onJumpTo }) => {
+  const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  // Editing State ('new' for the add form, otherwise the entry key)
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EntryDraft>(emptyDraft());
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getVocabulary().then(list => {
+      setEntries(list);
+      setIsLoading(false);
+    });
+  }, []);
+
+  const allTags = useMemo(() => [...new Set(entries.flatMap(e => e.tags))].sort(), [entries]);
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return entries.filter(e =>
+      (!activeTag || e.tags.includes(activeTag)) &&
+      (!q || e.term.toLowerCase().includes(q) || e.definition.toLowerCase().includes(q) || e.tags.some(t => t.includes(q)))
+    );
+  }, [entries, query, activeTag]);
+
+  const startAdd = () => {
+    setDraft(emptyDraft());
+    setFormError(null);
+    setEditingKey('new');
+  };
+
+  const startEdit = (entry: VocabularyEntry) => {
+    setDraft({ term: entry.term, definition: entry.definition, targetLanguage: entry.targetLanguage, tags: entry.tags.join(', ') });
+    setFormError(null);
+    setEditingKey(entry.key);
+  };
+
+  const handleSave = async () => {
+    if (!draft.term.trim()) {
+      setFormError("Term is required.");
+      return;
+    }
+    try {
+      if (editingKey === 'new') {
+        const created = await createVocabularyEntry(draft.term, draft.definition, draft.targetLanguage, parseTags(draft.tags));
+        setEntries([...entries, created].sort((a, b) => a.term.localeCompare(b.term)));
+      } else {
+        const entry = entries.find(e => e.key === editingKey);
+        if (!entry) return;
+        // The key stays the same so future videos keep merging into this entry
+        const saved = await saveVocabularyEntry({ ...entry, term: draft.term.trim(), definition: draft.definition.trim(), tags: parseTags(draft.tags) });
+        setEntries(entries.map(e => e.key === saved.key ? saved : e));
+      }
+      setEditingKey(null);
+    } catch (error: any) {
+      setFormError(error.message || "Could not save this word.");
+    }
+  };
+
+  const handleDelete = async (entry: VocabularyEntry) => {
+    if (!confirm(`Remove "${entry.term}" from your vocabulary?`)) return;
+    try {
+      await deleteVocabularyEntry(entry);
+      setEntries(entries.filter(e => e.key !== entry.key));
+    } catch (error: any) {
+      alert(error.message || "Could not delete this word.");
+    }
+  };
+
+  const renderForm = () => (
+    <div className="bg-white border border-indigo-200 rounded-xl p-4 shadow-sm space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          value={draft.term}
+          onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+          placeholder="Term"
+          className="border border-gray-200 rounded-lg px-3 py-2 text-sm"
+          autoFocus
+        />
+        <select
+          value={draft.targetLanguage}
+          onChange={(e) => setDraft({ ...draft, targetLanguage: e.target.value })}
+          disabled={editingKey !== 'new'}
+          className="border border-gray-200 rounded-lg px-3 py-2 text-sm bg-white disabled:bg-gray-50 disabled:text-gray-400"
+          title="Language of the definition"
+        >
+          {LANGUAGES.map(l => <option key={l.code} value={l.name}>{l.name}</option>)}
+        </select>
+      </div>
+      <textarea
+        value={draft.definition}
+        onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+        placeholder="Definition"
+        rows={2}
+        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm resize-none"
+      />
+      <input
+        value={draft.tags}
+        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+        placeholder="Tags, comma separated"
+        className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm"
+      />
+      {formError && <p className="text-xs text-red-500">{formError}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setEditingKey(null)} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50">
+          <X className="w-4 h-4" /> Cancel
+        </button>
+        <button onClick={handleSave} className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+          <Check className="w-4 h-4" /> Save
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between sticky top-0 z-50 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="p-2 rounded-full hover:bg-gray-100 text-gray-600 transition-colors">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-lg font-bold text-gray-800 leading-tight flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-indigo-600" /> My Vocabulary
+            </h1>
+            <p className="text-xs text-gray-500">{entries.length} terms from all your videos</p>
+          </div>
+        </div>
+        <button onClick={startAdd} disabled={editingKey === 'new'} className="flex items-center gap-2 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50">
+          <Plus className="w-4 h-4" /> Add Word
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-6 max-w-4xl mx-auto w-full space-y-4">
+        {/* Search & Tag Filter */}
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search terms, definitions or tags..."
+              className="w-full pl-9 pr-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+            />
+          </div>
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              {allTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border ${activeTag === tag ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-200 text-gray-600 hover:border-indigo-300'}`}
+                >
+                  <Tag className="w-3 h-3" /> {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {editingKey === 'new' && renderForm()}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20 text-gray-400"><Loader2 className="w-6 h-6 animate-spin" /></div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center text-gray-400 py-20">
+            {entries.length === 0 ? 'No words yet. Process a video with flashcards or add one by hand.' : 'No words match your search.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map(entry => editingKey === entry.key ? (
+              <React.Fragment key={entry.key}>{renderForm()}</React.Fragment>
+            ) : (
+              <div key={entry.key} className="group bg-white border border-gray-200 rounded-xl p-4 shadow-sm hover:border-indigo-200 transition-colors">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-bold text-gray-800">{entry.term}</h3>
+                    <p className="text-sm text-gray-600 mt-0.5">{entry.definition}</p>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                    <span className="text-[10px] text-gray-400 mr-2">{entry.targetLanguage}</span>
+                    <button onClick={() => startEdit(entry)} className="p-1.5 rounded-md text-gray-400 hover:text-indigo-600 hover:bg-indigo-50" title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(entry)} className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-red-50" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {entry.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {entry.tags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 rounded-full text-[10px] bg-gray-100 text-gray-600">{tag}</span>
+                    ))}
+                  </div>
+                )}
+
+                {entry.sources.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-gray-100 space-y-1">
+                    {entry.sources.map(source => (
+                      <button
+                        key={source.fingerprint}
+                        onClick={() => onJumpTo(source)}
+                        className="w-full flex items-center gap-2 text-left text-xs text-gray-500 hover:text-indigo-600"
+                        title={source.context}
+                      >
+                        <PlayCircle className="w-3.5 h-3.5 shrink-0" />
+                        <span className="truncate font-medium">{source.fileName}</span>
+                        {source.timestampMs !== null && <span className="font-mono shrink-0">{formatTime(source.timestampMs)}</span>}
+                        <span className="truncate italic text-gray-400">"{source.context}"</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default VocabularyView;
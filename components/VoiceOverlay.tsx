@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { VoiceProfile } from '../services/practiceService';
+
+interface VoiceOverlayProps {
+  original: VoiceProfile;
+  attempt: VoiceProfile;
+}
+
+const HEIGHT = 120;
+const PITCH_RANGE = 8; // Semitones above/below the median shown on the pitch lane
+
+// Loudness envelopes (filled: original, line: attempt) over the pitch contours, both time-normalized
+const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ original, attempt }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = canvas.clientWidth;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    const envelopeTop = HEIGHT * 0.45;
+    const x = (i: number, count: number) => (i / Math.max(1, count - 1)) * width;
+
+    // Envelope lane (bottom)
+    ctx.fillStyle = 'rgba(79, 70, 229, 0.25)';
+    ctx.beginPath();
+    ctx.moveTo(0, HEIGHT);
+    original.envelope.forEach((v, i) => ctx.lineTo(x(i, original.envelope.length), HEIGHT - v * (HEIGHT - envelopeTop)));
+    ctx.lineTo(width, HEIGHT);
+    ctx.fill();
+
+    ctx.strokeStyle = '#f59e0b';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    attempt.envelope.forEach((v, i) => {
+      const y = HEIGHT - v * (HEIGHT - envelopeTop);
+      if (i === 0) ctx.moveTo(0, y);
+      else ctx.lineTo(x(i, attempt.envelope.length), y);
+    });
+    ctx.stroke();
+
+    // Pitch lane (top): dots where the voice is voiced
+    const pitchY = (semitones: number) => {
+      const clamped = Math.max(-PITCH_RANGE, Math.min(PITCH_RANGE, semitones));
+      return envelopeTop / 2 - (clamped / PITCH_RANGE) * (envelopeTop / 2 - 4);
+    };
+    const drawPitch = (profile: VoiceProfile, color: string) => {
+      ctx.fillStyle = color;
+      profile.pitch.forEach((p, i) => {
+        if (Number.isNaN(p)) return;
+        ctx.fillRect(x(i, profile.pitch.length) - 1, pitchY(p) - 1, 2.5, 2.5);
+      });
+    };
+    drawPitch(original, '#4f46e5');
+    drawPitch(attempt, '#f59e0b');
+
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, envelopeTop);
+    ctx.lineTo(width, envelopeTop);
+    ctx.stroke();
+  }, [original, attempt]);
+
+  return (
+    <div>
+      <canvas ref={canvasRef} className="w-full rounded-lg bg-gray-50 border border-gray-100" style={{ height: HEIGHT }} />
+      <div className="flex items-center justify-between text-[10px] text-gray-400 mt-1">
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-indigo-500/40"></span>Original</span>
+        <span>Pitch (top) · Loudness (bottom)</span>
+        <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-amber-500"></span>You</span>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceOverlay;
@@ -0,0 +1,43 @@
+export const CANCELLED_MESSAGE = "Processing cancelled by user.";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new Error(CANCELLED_MESSAGE);
+};
+
+// --- HELPER: Promise Wrapper for Cancellation ---
+export const runWithCancellation = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(new Error(CANCELLED_MESSAGE));
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new Error(CANCELLED_MESSAGE));
+        signal.addEventListener("abort", onAbort);
+
+        promise.then(
+            (res) => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(res);
+            },
+            (err) => {
+                signal.removeEventListener("abort", onAbort);
+                reject(err);
+            }
+        );
+    });
+};
+
+// --- HELPER: Abortable delay ---
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error(CANCELLED_MESSAGE));
+    const abortHandler = () => {
+      clearTimeout(timer);
+      reject(new Error(CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abortHandler);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abortHandler);
+  });
+};
@@ -0,0 +1,79 @@
+import { Flashcard, Note, ProcessingOptions, ProviderId, StatusUpdateCallback, Subtitle } from "../types";
+import { geminiProvider } from "./providers/geminiProvider";
+import { openAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { mockProvider } from "./providers/mockProvider";
+import { loadProviderSettings } from "./providerSettings";
+
+export interface TimeWindow {
+  start: number; // seconds
+  end: number;   // seconds, Infinity when the media duration is unknown
+}
+
+// A transcribed line before stitching. Times are absolute seconds in the full media.
+export interface TranscriptCue {
+  start: number; // seconds from the start of the media, like TimeWindow
+  end: number;
+  original: string;
+  translation?: string; // Providers that translate while transcribing fill this in
+}
+
+export interface StudyMaterials {
+  notes: Note[];
+  flashcards: Flashcard[];
+}
+
+// Meaning of a word or phrase as used in one sentence
+export interface TermDefinition {
+  translation: string; // Short translation of the term itself
+  definition: string;  // What it means in this sentence, in the target language
+  partOfSpeech?: string;
+}
+
+export interface ProviderContext {
+  options: ProcessingOptions;
+  model: string;
+  onStatusUpdate?: StatusUpdateCallback;
+  signal?: AbortSignal;
+}
+
+/**
+ * One AI backend. The processing pipeline only talks to this interface,
+ * so adding a backend never touches the upload → dashboard flow.
+ */
+export interface AIProvider<TMedia = any> {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  // Length of the windows passed to transcribe(); null means the provider handles the whole file at once
+  segmentSeconds: number | null;
+  requiresApiKey: boolean;
+
+  prepareMedia: (file: File, durationSec: number | null, ctx: ProviderContext) => Promise<TMedia>;
+  transcribe: (media: TMedia, window: TimeWindow, ctx: ProviderContext) => Promise<TranscriptCue[]>;
+  translate: (lines: string[], ctx: ProviderContext) => Promise<string[]>;
+  summarize: (subtitles: Subtitle[], ctx: ProviderContext) => Promise<StudyMaterials>;
+  define: (term: string, sentence: string, ctx: ProviderContext) => Promise<TermDefinition>;
+  // language is a BCP-47 code (e.g. 'vi-VN'); backends that detect it from the text may ignore it
+  speak: (text: string, voiceName: string, language: string, audioContext: BaseAudioContext) => Promise<AudioBuffer>;
+}
+
+const PROVIDERS: Record<ProviderId, AIProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider,
+};
+
+export const PROVIDER_LIST: AIProvider[] = Object.values(PROVIDERS);
+
+export const getProvider = (id: ProviderId): AIProvider => PROVIDERS[id] || geminiProvider;
+
+// --- TTS ---
+export const getTTSAudio = async (
+  text: string,
+  voiceName: string,
+  language: string,
+  audioContext: BaseAudioContext,
+  providerId: ProviderId = loadProviderSettings().provider
+): Promise<AudioBuffer> => {
+  return getProvider(providerId).speak(text, voiceName, language, audioContext);
+};
@@ -0,0 +1,99 @@
+import { Subtitle } from "../types";
+import { WaveformData } from "./mediaAudioService";
+import { MIN_CUE_MS } from "./subtitleEditing";
+
+// Local forced alignment: an energy-based voice activity detector finds speech
+// runs in the decoded audio, then each cue boundary snaps to the nearest onset/offset.
+
+const MIN_SPEECH_MS = 120;   // Shorter bursts (clicks, breaths) are ignored
+const MIN_SILENCE_MS = 250;  // Shorter pauses stay inside one speech run
+const MAX_SNAP_MS = 800;     // Boundaries further than this from speech edges are left alone
+const CHANGE_EPSILON_MS = 10;
+
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+}
+
+export interface AlignmentChange {
+  id: number;
+  text: string;
+  before: SpeechSegment;
+  after: SpeechSegment;
+}
+
+export interface AlignmentResult {
+  subtitles: Subtitle[];
+  changes: AlignmentChange[];
+  segmentCount: number;
+}
+
+const percentile = (sorted: Float32Array, p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+
+// --- VAD ---
+export const detectSpeechSegments = (waveform: WaveformData): SpeechSegment[] => {
+  const { rms, bucketMs } = waveform;
+  if (rms.length === 0) return [];
+
+  // Threshold adapts to the recording: somewhere above the noise floor, below typical speech level
+  const db = rms.map(v => 20 * Math.log10(v + 1e-10));
+  const sorted = db.slice().sort();
+  const noiseFloor = percentile(sorted, 0.1);
+  const speechLevel = percentile(sorted, 0.9);
+  const threshold = noiseFloor + Math.max(6, (speechLevel - noiseFloor) * 0.35);
+
+  const segments: SpeechSegment[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= db.length; i++) {
+    const voiced = i < db.length && db[i] > threshold;
+    if (voiced && runStart === -1) runStart = i;
+    if (!voiced && runStart !== -1) {
+      const seg = { startMs: runStart * bucketMs, endMs: i * bucketMs };
+      const prev = segments[segments.length - 1];
+      if (prev && seg.startMs - prev.endMs < MIN_SILENCE_MS) prev.endMs = seg.endMs;
+      else segments.push(seg);
+      runStart = -1;
+    }
+  }
+  return segments.filter(s => s.endMs - s.startMs >= MIN_SPEECH_MS);
+};
+
+// Nearest candidate to `target` inside [lo, hi] and within MAX_SNAP_MS, or null
+const nearest = (candidates: number[], target: number, lo: number, hi: number): number | null => {
+  let best: number | null = null;
+  for (const c of candidates) {
+    if (c < lo || c > hi || Math.abs(c - target) > MAX_SNAP_MS) continue;
+    if (best === null || Math.abs(c - target) < Math.abs(best - target)) best = c;
+  }
+  return best;
+};
+
+// --- SNAPPING ---
+export const alignSubtitles = (subtitles: Subtitle[], segments: SpeechSegment[]): AlignmentResult => {
+  const onsets = segments.map(s => s.startMs);
+  const offsets = segments.map(s => s.endMs);
+  const aligned: Subtitle[] = [];
+
+  subtitles.forEach((sub, i) => {
+    // Each cue stays after the previous aligned cue and leaves the next cue room to exist
+    const prevEnd = i > 0 ? aligned[i - 1].endMs : 0;
+    const next = subtitles[i + 1];
+    const startMs = nearest(onsets, sub.startMs, prevEnd, sub.endMs - MIN_CUE_MS) ?? Math.max(sub.startMs, prevEnd);
+    const endLimit = next ? next.endMs - MIN_CUE_MS : Number.POSITIVE_INFINITY;
+    const endMs = nearest(offsets, sub.endMs, startMs + MIN_CUE_MS, endLimit) ?? Math.max(sub.endMs, startMs + MIN_CUE_MS);
+    aligned.push({ ...sub, startMs, endMs });
+  });
+
+  const changes = aligned
+    .map((sub, i) => ({
+      id: sub.id,
+      text: sub.textOriginal,
+      before: { startMs: subtitles[i].startMs, endMs: subtitles[i].endMs },
+      after: { startMs: sub.startMs, endMs: sub.endMs },
+    }))
+    .filter(c => Math.abs(c.after.startMs - c.before.startMs) >= CHANGE_EPSILON_MS ||
+                 Math.abs(c.after.endMs - c.before.endMs) >= CHANGE_EPSILON_MS);
+
+  return { subtitles: aligned, changes, segmentCount: segments.length };
+};
@@ -0,0 +1,218 @@
+import initSqlJs from "sql.js";
+import { strToU8, zipSync } from "fflate";
+import { Flashcard } from "../types";
+import { audioBufferToWav } from "./audioUtils";
+import { getClipBlob } from "./audioClipService";
+import { clozeSegments, isClozeCard } from "./clozeService";
+import { getLanguageCode } from "./languages";
+import { getCardKey } from "./srsService";
+import { formatTime } from "./timeUtils";
+import { getSpeech, loadVoicePreference } from "./ttsCacheService";
+
+// Builds a genuine Anki package: a schema-11 SQLite collection (collection.anki2)
+// plus numbered media files, zipped. Deck, note type and note GUIDs are fixed,
+// so importing a re-export updates the existing notes instead of duplicating them.
+
+// Must match the exact sql.js version in package.json and the index.html import map: the JS glue and wasm ship as a pair
+const SQL_WASM_URL = (file: string) => `https://cdn.jsdelivr.net/npm/sql.js@1.14.2/dist/${file}`;
+
+const ANKI_MODEL_ID = 1733155200001;
+const ANKI_DECK_ID = 1733155200002;
+const ANKI_CLOZE_MODEL_ID = 1733155200003;
+const ANKI_DECK_NAME = 'BilingualFlow';
+const ANKI_MODEL_NAME = 'BilingualFlow Vocabulary';
+const ANKI_CLOZE_MODEL_NAME = 'BilingualFlow Sentence';
+const FIELD_NAMES = ['Term', 'Definition', 'Context', 'Source', 'Audio'];
+const CLOZE_FIELD_NAMES = ['Text', 'Hint', 'Source', 'Audio'];
+const TTS_SAMPLE_RATE = 24000;
+
+export interface AnkiExportOptions {
+  targetLanguage: string;
+  originalLanguage: string; // Card terms are in this language, so their audio is too
+  sourceFileName?: string;
+  includeAudio: boolean;
+  voiceName?: string;
+  onProgress?: (message: string) => void;
+}
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 20px; text-align: center; color: #1f2937; background: #fff; }
+.term { font-size: 32px; font-weight: bold; }
+.definition { margin-top: 12px; color: #4f46e5; }
+.context { margin-top: 16px; font-style: italic; color: #6b7280; font-size: 16px; }
+.source { margin-top: 12px; color: #9ca3af; font-size: 12px; }
+.hint { margin-top: 12px; color: #6b7280; font-size: 16px; }
+.cloze { font-weight: bold; color: #4f46e5; }`;
+
+// --- HELPERS ---
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const LATEX_PRE = '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n';
+
+const modelJSON = (id: number, name: string, type: 0 | 1, fieldNames: string[], qfmt: string, afmt: string, nowSec: number) => ({
+  id,
+  name,
+  type,
+  mod: nowSec,
+  usn: -1,
+  sortf: 0,
+  did: ANKI_DECK_ID,
+  tmpls: [{ name: type === 1 ? 'Cloze' : 'Recognition', ord: 0, qfmt, afmt, did: null, bqfmt: '', bafmt: '' }],
+  flds: fieldNames.map((fieldName, ord) => ({ name: fieldName, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: LATEX_PRE,
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  req: [[0, 'any', [0]]],
+});
+
+// "I {{c1::really}} mean it" – every hidden range is part of the same single deletion
+const toAnkiCloze = (card: Flashcard) =>
+  clozeSegments(card.context, card.cloze).map(seg => seg.hidden ? `{{c1::${escapeHTML(seg.text)}}}` : escapeHTML(seg.text)).join('');
+
+const buildModels = (nowSec: number) => ({
+  [ANKI_MODEL_ID]: modelJSON(
+    ANKI_MODEL_ID, ANKI_MODEL_NAME, 0, FIELD_NAMES,
+    '<div class="term">{{Term}}</div>{{Audio}}',
+    '{{FrontSide}}<hr id="answer"><div class="definition">{{Definition}}</div><div class="context">{{Context}}</div><div class="source">{{Source}}</div>',
+    nowSec
+  ),
+  // Mined sentences: the hidden words become one c1 deletion, the translated line is the hint
+  [ANKI_CLOZE_MODEL_ID]: modelJSON(
+    ANKI_CLOZE_MODEL_ID, ANKI_CLOZE_MODEL_NAME, 1, CLOZE_FIELD_NAMES,
+    '{{cloze:Text}}<div class="hint">{{Hint}}</div>{{Audio}}',
+    '{{cloze:Text}}<div class="hint">{{Hint}}</div><div class="source">{{Source}}</div>',
+    nowSec
+  ),
+});
+
+const deckJSON = (id: number, name: string, nowSec: number) => ({
+  id, name, mod: nowSec, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false,
+  extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', replayq: true, timer: 0, maxTaken: 60, usn: 0, mod: 0, autoplay: true, dyn: false,
+    new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: true, order: 1 },
+    rev: { perDay: 100, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, ease4: 1.3, bury: true, minSpace: 1 },
+    lapse: { leechFails: 8, minInt: 1, delays: [10], leechAction: 0, mult: 0 },
+  },
+};
+
+const COLLECTION_CONFIG = {
+  activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+  dueCounts: true, curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+};
+
+// Term audio from the shared TTS cache (synthesized on a miss); a failed line just has no audio
+const renderTermAudio = async (term: string, voiceName: string, language: string): Promise<Uint8Array | null> => {
+  try {
+    const ctx = new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE);
+    const buffer = await getSpeech(term, voiceName, language, ctx);
+    return new Uint8Array(await audioBufferToWav(buffer).arrayBuffer());
+  } catch (error) {
+    console.warn(`TTS for "${term}" failed, exporting without audio:`, error);
+    return null;
+  }
+};
+
+// --- MAIN EXPORT ---
+export const buildApkg = async (cards: Flashcard[], options: AnkiExportOptions): Promise<Blob> => {
+  const { targetLanguage, originalLanguage, sourceFileName, includeAudio, voiceName = loadVoicePreference(), onProgress } = options;
+  const SQL = await initSqlJs({ locateFile: SQL_WASM_URL });
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSec = Math.floor(now / 1000);
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSec, now, now,
+      JSON.stringify(COLLECTION_CONFIG),
+      JSON.stringify(buildModels(nowSec)),
+      JSON.stringify({ 1: deckJSON(1, 'Default', nowSec), [ANKI_DECK_ID]: deckJSON(ANKI_DECK_ID, ANKI_DECK_NAME, nowSec) }),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ]);
+
+    const mediaMap: Record<string, string> = {};
+    const mediaFiles: Record<string, Uint8Array> = {};
+
+    for (let i = 0; i < cards.length; i++) {
+      const card = cards[i];
+      if (onProgress) onProgress(`Preparing card ${i + 1}/${cards.length}...`);
+
+      // Everything that identifies the note derives from the card key, so it survives re-exports
+      const keyHash = await sha1Hex(getCardKey(card, targetLanguage));
+      const noteId = parseInt(keyHash.slice(0, 11), 16);
+      const guid = `bsf-${keyHash.slice(0, 16)}`;
+
+      const isCloze = isClozeCard(card);
+      const addMedia = (bytes: Uint8Array, mediaName: string) => {
+        const index = String(Object.keys(mediaMap).length);
+        mediaMap[index] = mediaName;
+        mediaFiles[index] = bytes;
+        return `[sound:${mediaName}]`;
+      };
+
+      // The speaker's own recording of the line: the cloze audio, or played with a term's context
+      let clipField = '';
+      const clipRef = card.media?.find(m => m.type === 'audio');
+      const clip = clipRef ? await getClipBlob(clipRef.clipId) : null;
+      if (clip) clipField = addMedia(new Uint8Array(await clip.arrayBuffer()), `bsf_clip_${keyHash.slice(0, 12)}.wav`);
+
+      let audioField = isCloze ? clipField : '';
+      if (!isCloze && includeAudio) {
+        const wav = await renderTermAudio(card.term, voiceName, getLanguageCode(originalLanguage));
+        if (wav) audioField = addMedia(wav, `bsf_${keyHash.slice(0, 12)}.wav`);
+      }
+
+      const source = escapeHTML([sourceFileName, card.sourceMs !== undefined ? formatTime(card.sourceMs) : '']
+        .filter(Boolean).join(' @ '));
+      const fields = isCloze
+        ? [toAnkiCloze(card), escapeHTML(card.definition), source, audioField]
+        : [escapeHTML(card.term), escapeHTML(card.definition), `${escapeHTML(card.context)} ${clipField}`.trim(), source, audioField];
+      const sortField = isCloze ? card.context : card.term;
+
+      const checksum = parseInt((await sha1Hex(sortField)).slice(0, 8), 16);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)', [
+        noteId, guid, isCloze ? ANKI_CLOZE_MODEL_ID : ANKI_MODEL_ID, nowSec, ' bilingualflow ', fields.join('\x1f'), sortField, checksum, '',
+      ]);
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)', [
+        noteId + 1, noteId, ANKI_DECK_ID, nowSec, i + 1, '',
+      ]);
+    }
+
+    if (onProgress) onProgress("Packaging...");
+    const zipped = zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8(JSON.stringify(mediaMap)),
+      ...mediaFiles,
+    });
+    return new Blob([zipped], { type: 'application/zip' });
+  } finally {
+    db.close();
+  }
+};
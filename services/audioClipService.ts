@@ -0,0 +1,126 @@
+import { zipSync, strToU8, Zippable } from "fflate";
+import { Flashcard, MediaRef, Subtitle } from "../types";
+import { audioBufferToWav } from "./audioUtils";
+import { CLIPS_STORE, runRequest } from "./db";
+import { decodeMediaAudio } from "./mediaAudioService";
+import { formatTime } from "./timeUtils";
+
+// Cuts the original speaker's audio for one line out of the uploaded media
+
+const CLIP_PADDING_MS = 150; // Cue times are rarely exact; a little air keeps first/last syllables
+
+export interface StoredClip {
+  id: string;
+  fingerprint: string; // Media the clip was cut from
+  startMs: number;
+  endMs: number;
+  blob: Blob;
+  createdAt: number;
+}
+
+// Decoding is the slow part, so the last decoded file is kept while the user mines lines from it
+let lastDecoded: { file: File; buffer: Promise<AudioBuffer> } | null = null;
+
+const getDecodedAudio = (file: File): Promise<AudioBuffer> => {
+  if (lastDecoded?.file !== file) {
+    const buffer = decodeMediaAudio(file);
+    buffer.catch(() => { if (lastDecoded?.buffer === buffer) lastDecoded = null; });
+    lastDecoded = { file, buffer };
+  }
+  return lastDecoded.buffer;
+};
+
+// The decoded PCM of a long lecture runs to gigabytes; the dashboard lets go of it when it closes
+export const releaseDecodedAudio = () => {
+  lastDecoded = null;
+};
+
+export const sliceAudio = (buffer: AudioBuffer, startMs: number, endMs: number, padMs = CLIP_PADDING_MS): AudioBuffer => {
+  const { sampleRate, numberOfChannels } = buffer;
+  const from = Math.max(0, Math.floor(((startMs - padMs) / 1000) * sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(((endMs + padMs) / 1000) * sampleRate));
+  if (to <= from) throw new Error("This line has no audio to cut.");
+
+  const clip = new AudioBuffer({ length: to - from, numberOfChannels, sampleRate });
+  for (let c = 0; c < numberOfChannels; c++) {
+    clip.copyToChannel(buffer.getChannelData(c).subarray(from, to), c);
+  }
+  return clip;
+};
+
+export const extractClipBuffer = async (file: File, startMs: number, endMs: number): Promise<AudioBuffer> =>
+  sliceAudio(await getDecodedAudio(file), startMs, endMs);
+
+export const extractClipWav = async (file: File, startMs: number, endMs: number): Promise<Blob> =>
+  audioBufferToWav(sliceAudio(await getDecodedAudio(file), startMs, endMs));
+
+// "007_00-01-05.wav" – sorts in playback order
+export const clipFileName = (sub: Subtitle) =>
+  `${String(sub.id).padStart(3, '0')}_${formatTime(sub.startMs).replace(/:/g, '-')}.wav`;
+
+// Every line as its own WAV plus a tab-separated index of the texts
+export const buildClipsZip = async (
+  file: File,
+  subtitles: Subtitle[],
+  onProgress?: (percent: number) => void
+): Promise<Blob> => {
+  const buffer = await getDecodedAudio(file);
+  const files: Zippable = {};
+  const index = ['file\tstart\tend\toriginal\ttranslation'];
+
+  for (let i = 0; i < subtitles.length; i++) {
+    const sub = subtitles[i];
+    const name = clipFileName(sub);
+    try {
+      const wav = audioBufferToWav(sliceAudio(buffer, sub.startMs, sub.endMs));
+      files[name] = new Uint8Array(await wav.arrayBuffer());
+      index.push([name, formatTime(sub.startMs), formatTime(sub.endMs), sub.textOriginal, sub.textTranslated].map(v => v.replace(/\s+/g, ' ')).join('\t'));
+    } catch (error) {
+      console.warn(`Skipping clip for line ${sub.id}`, error);
+    }
+    if (onProgress) onProgress(Math.round(((i + 1) / subtitles.length) * 100));
+  }
+
+  files['lines.tsv'] = strToU8(index.join('\n'));
+  // WAV barely compresses, so entries are stored as-is
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+};
+
+// --- STORAGE ---
+
+// Cuts and stores a clip; the returned reference goes on the card
+export const createClip = async (file: File, fingerprint: string, startMs: number, endMs: number): Promise<MediaRef> => {
+  const blob = await extractClipWav(file, startMs, endMs);
+  const clip: StoredClip = {
+    id: `${fingerprint}_${startMs}_${endMs}`,
+    fingerprint,
+    startMs,
+    endMs,
+    blob,
+    createdAt: Date.now(),
+  };
+  await runRequest(CLIPS_STORE, 'readwrite', store => store.put(clip));
+  return { type: 'audio', clipId: clip.id, startMs, endMs };
+};
+
+// Term cards get the clip of the line they were heard in
+export const attachLineClip = async (file: File, fingerprint: string, card: Flashcard, subtitles: Subtitle[]): Promise<Flashcard> => {
+  if (card.sourceMs === undefined) throw new Error("This card is not linked to a line of the video.");
+  const atMs = card.sourceMs;
+  const line = subtitles.find(s => atMs >= s.startMs && atMs < s.endMs)
+    || [...subtitles].reverse().find(s => s.startMs <= atMs);
+  if (!line) throw new Error("Could not find the line this card comes from.");
+
+  const clip = await createClip(file, fingerprint, line.startMs, line.endMs);
+  return { ...card, media: [...(card.media || []).filter(m => m.type !== 'audio'), clip] };
+};
+
+export const getClipBlob = async (clipId: string): Promise<Blob | null> => {
+  try {
+    const clip = await runRequest<StoredClip | undefined>(CLIPS_STORE, 'readonly', store => store.get(clipId));
+    return clip ? clip.blob : null;
+  } catch (error) {
+    console.error("[IndexedDB] Reading clip failed:", error);
+    return null;
+  }
+};
@@ -1,107 +1,387 @@
-import { ProcessedData } from "../types";
+import { ProcessedData, VocabularyEntry } from "../types";
+import { CLIPS_STORE, DUBS_STORE, openDB, PRACTICE_STORE, TRANSLATIONS_STORE, VOCABULARY_STORE } from "./db";
+import { migrateProcessedData } from "./dataMigrations";
+import { getMediaDurationMs } from "./mediaAudioService";
 
-const DB_NAME = 'BilingualFlowDB';
-const STORE_NAME = 'translations';
-const DB_VERSION = 1;
-const CACHE_PREFIX = "v2_"; 
+const STORE_NAME = TRANSLATIONS_STORE;
+const CACHE_PREFIX = "v3_";
+const LEGACY_PREFIX = "v2_";
+const SAMPLE_BYTES = 256 * 1024; // Read from the start, middle and end of the file
+const DURATION_TOLERANCE_MS = 5000; // Name + duration fallback: re-muxed copies differ by a few frames
 
-// --- IndexedDB Helper Functions ---
+export type CacheMatchStrategy = 'content' | 'legacy' | 'name-duration';
 
-const openDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-    
-    request.onerror = () => reject(new Error("Failed to open IndexedDB"));
-    
-    request.onsuccess = () => resolve(request.result);
-    
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        // Create store. Key is the fingerprint string.
-        db.createObjectStore(STORE_NAME);
-      }
-    };
-  });
-};
+export interface CacheMatch {
+  fingerprint: string; // Key the session lives under (the stored one for name + duration matches)
+  strategy: CacheMatchStrategy;
+  data: ProcessedData;
+  legacyFingerprint?: string; // The v2_ key the entry was migrated from
+}
+
+// --- FINGERPRINTS ---
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
 
-// Generate a unique hash based on file content (First 2KB) + Exact Size
+// SHA-256 over the size and three sampled chunks, read one at a time, so re-encodes that share a
+// container header no longer collide and multi-GB files are never read whole.
+// Final Key: v3_10485760_<64 hex>
 export const generateFingerprint = async (file: File): Promise<string> => {
-  // 1. Primary Key: File Size
+  if (!crypto.subtle) return legacyFingerprint(file); // Insecure context (plain http): no SubtleCrypto
+
   const size = file.size;
-  
-  // 2. Secondary Key: First 2KB of binary data (Header)
-  const chunk = file.slice(0, 2048); 
-  const buffer = await chunk.arrayBuffer();
-  const headerBytes = new Uint8Array(buffer);
-  
-  let headerHex = "";
-  for (let i = 0; i < headerBytes.length; i++) {
-    headerHex += headerBytes[i].toString(16).padStart(2, '0');
+  const offsets = size <= SAMPLE_BYTES * 3
+    ? [0]
+    : [0, Math.floor(size / 2 - SAMPLE_BYTES / 2), size - SAMPLE_BYTES];
+  const length = size <= SAMPLE_BYTES * 3 ? size : SAMPLE_BYTES;
+
+  const input = new Uint8Array(8 + offsets.length * length);
+  new DataView(input.buffer).setFloat64(0, size);
+  for (let i = 0; i < offsets.length; i++) {
+    const chunk = await file.slice(offsets[i], offsets[i] + length).arrayBuffer();
+    input.set(new Uint8Array(chunk), 8 + i * length);
   }
+  const digest = await crypto.subtle.digest('SHA-256', input);
+  return `${CACHE_PREFIX}${size}_${toHex(new Uint8Array(digest))}`;
+};
 
-  // Final Key: v2_10485760_a1b2c3d4...
-  return `${CACHE_PREFIX}${size}_${headerHex.substring(0, 64)}`;
+// Previous scheme: size + first 32 bytes of the header. Only used to find and migrate old entries.
+const legacyFingerprint = async (file: File): Promise<string> => {
+  const header = new Uint8Array(await file.slice(0, 32).arrayBuffer());
+  return `${LEGACY_PREFIX}${file.size}_${toHex(header)}`;
 };
 
-export const saveToCache = async (file: File, data: ProcessedData): Promise<void> => {
+// Keyed by fingerprint so transcript-only sessions (no media at hand) can be saved too.
+// A title given in the session library survives later saves. Rejects when the write fails.
+export const saveCacheEntry = async (fingerprint: string, fileName: string, data: ProcessedData, durationMs?: number | null): Promise<void> => {
   try {
-    const key = await generateFingerprint(file);
     const db = await openDB();
-    
-    const cacheEntry = {
-      timestamp: Date.now(),
-      fileName: file.name,
-      data: data
-    };
 
-    return new Promise((resolve, reject) => {
+    return await new Promise((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
       const store = tx.objectStore(STORE_NAME);
-      const request = store.put(cacheEntry, key);
+      const existing = store.get(fingerprint);
 
-      request.onsuccess = () => {
-        console.log(`[IndexedDB] Saved translation for ${file.name}`);
-        resolve();
-      };
-      
-      request.onerror = () => {
-        console.error("[IndexedDB] Save failed:", request.error);
-        reject(request.error);
+      existing.onsuccess = () => {
+        const cacheEntry = {
+          timestamp: Date.now(),
+          accessedAt: Date.now(),
+          fileName,
+          title: existing.result?.title,
+          durationMs: durationMs ?? existing.result?.durationMs ?? null,
+          data: data
+        };
+        const request = store.put(cacheEntry, fingerprint);
+
+        request.onsuccess = () => {
+          console.log(`[IndexedDB] Saved translation for ${fileName}`);
+          resolve();
+        };
+
+        request.onerror = () => {
+          console.error("[IndexedDB] Save failed:", request.error);
+          reject(request.error);
+        };
       };
+      existing.onerror = () => reject(existing.error);
     });
   } catch (error) {
     console.error("Failed to save to cache:", error);
+    throw error;
   }
 };
 
-export const getFromCache = async (file: File): Promise<ProcessedData | null> => {
+// Content hash first, then the old v2_ key (migrated on the spot), then the same file name with
+// a matching duration (a re-muxed or slightly trimmed copy)
+export const findCachedSession = async (file: File): Promise<CacheMatch | null> => {
   try {
-    const key = await generateFingerprint(file);
-    const db = await openDB();
+    const fingerprint = await generateFingerprint(file);
+    const entry = await getCacheEntry(fingerprint);
+    if (entry) {
+      console.log(`[IndexedDB] Cache Hit for: ${file.name}`);
+      return { fingerprint, strategy: 'content', data: entry.data };
+    }
 
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.get(key);
+    const legacy = await legacyFingerprint(file);
+    if (legacy !== fingerprint) {
+      const legacyEntry = await getCacheEntry(legacy);
+      if (legacyEntry) {
+        await migrateFingerprint(legacy, fingerprint);
+        console.log(`[IndexedDB] Migrated ${file.name} to a content fingerprint`);
+        return { fingerprint, strategy: 'legacy', data: legacyEntry.data, legacyFingerprint: legacy };
+      }
+    }
 
-      request.onsuccess = () => {
-        const result = request.result;
-        if (result) {
-          console.log(`[IndexedDB] Cache Hit for: ${file.name}`);
-          resolve(result.data as ProcessedData);
-        } else {
-          resolve(null);
+    const durationMs = await getMediaDurationMs(file);
+    const similar = durationMs !== null ? await findByNameAndDuration(file.name, durationMs) : null;
+    if (similar) {
+      console.log(`[IndexedDB] Matched ${file.name} by name and duration`);
+      return { fingerprint: similar.fingerprint, strategy: 'name-duration', data: similar.data };
+    }
+    return null;
+  } catch (error) {
+    console.error("Error reading from cache:", error);
+    return null;
+  }
+};
+
+// Closest duration among entries saved under the same file name. Entries without a stored duration
+// are skipped: a common name like "lecture.mp4" would otherwise match unrelated recordings.
+const findByNameAndDuration = async (fileName: string, durationMs: number): Promise<CacheEntry | null> => {
+  const db = await openDB();
+  const candidates = await new Promise<CacheEntry[]>((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('fileName').openCursor(IDBKeyRange.only(fileName));
+    const found: CacheEntry[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(found);
+        return;
+      }
+      const value = cursor.value;
+      if (value?.data && value.durationMs) found.push({ ...value, fingerprint: String(cursor.primaryKey), data: migrateProcessedData(value.data) });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  const distance = (entry: CacheEntry) => Math.abs(entry.durationMs! - durationMs);
+  return candidates
+    .filter(entry => distance(entry) <= DURATION_TOLERANCE_MS)
+    .sort((a, b) => distance(a) - distance(b))[0] || null;
+};
+
+// Moves a session and everything that points at it to a new key in one transaction: the entry,
+// its clips and practice results (keys start with the fingerprint) and vocabulary jump-back sources
+const migrateFingerprint = async (from: string, to: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, CLIPS_STORE, PRACTICE_STORE, VOCABULARY_STORE], 'readwrite');
+    const entries = tx.objectStore(STORE_NAME);
+    const entry = entries.get(from);
+    entry.onsuccess = () => {
+      if (!entry.result) return;
+      entries.put(entry.result, to);
+      entries.delete(from);
+    };
+
+    const clips = tx.objectStore(CLIPS_STORE).openCursor();
+    clips.onsuccess = () => {
+      const cursor = clips.result;
+      if (!cursor) return;
+      // Clip ids stay: cards reference them
+      if (cursor.value?.fingerprint === from) cursor.update({ ...cursor.value, fingerprint: to });
+      cursor.continue();
+    };
+
+    const practiceStore = tx.objectStore(PRACTICE_STORE);
+    const practice = practiceStore.index('fingerprint').openCursor(IDBKeyRange.only(from));
+    practice.onsuccess = () => {
+      const cursor = practice.result;
+      if (!cursor) return;
+      const record = cursor.value;
+      cursor.delete();
+      practiceStore.put({ ...record, fingerprint: to, key: to + record.key.slice(from.length) });
+      cursor.continue();
+    };
+
+    const vocabulary = tx.objectStore(VOCABULARY_STORE).openCursor();
+    vocabulary.onsuccess = () => {
+      const cursor = vocabulary.result;
+      if (!cursor) return;
+      const vocabEntry = cursor.value as VocabularyEntry;
+      if (vocabEntry.sources.some(source => source.fingerprint === from)) {
+        cursor.update({ ...vocabEntry, sources: vocabEntry.sources.map(source => source.fingerprint === from ? { ...source, fingerprint: to } : source) });
+      }
+      cursor.continue();
+    };
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.error("[IndexedDB] Fingerprint migration failed:", tx.error);
+      reject(tx.error);
+    };
+  });
+};
+
+export interface CacheEntry {
+  fingerprint: string;
+  fileName: string;
+  title?: string; // Set by renaming in the session library; fileName otherwise
+  durationMs?: number | null; // Media duration, for the name + duration fallback
+  timestamp: number;
+  accessedAt?: number; // Last opened or saved; the storage budget evicts the oldest first
+  data: ProcessedData;
+}
+
+// What the session library shows without handing every transcript to the UI
+export interface SessionSummary {
+  fingerprint: string;
+  fileName: string;
+  title: string;
+  timestamp: number;
+  durationMs: number; // Media duration, or the end of the last cue for older entries
+  originalLanguage: string;
+  targetLanguage: string;
+  lineCount: number;
+  cardCount: number;
+  noteCount: number;
+}
+
+// Every cached file, newest first (used by library-wide views)
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  try {
+    const db = await openDB();
+    return await new Promise((resolve, reject) => {
+      const entries: CacheEntry[] = [];
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const cursorRequest = tx.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve(entries.sort((a, b) => b.timestamp - a.timestamp));
+          return;
+        }
+        const value = cursor.value;
+        if (value?.data) {
+          entries.push({
+            fingerprint: String(cursor.key),
+            fileName: value.fileName,
+            title: value.title,
+            durationMs: value.durationMs,
+            timestamp: value.timestamp,
+            data: migrateProcessedData(value.data),
+          });
         }
+        cursor.continue();
       };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  } catch (error) {
+    console.error("[IndexedDB] Listing cache failed:", error);
+    return [];
+  }
+};
 
-      request.onerror = () => {
-        console.error("[IndexedDB] Read failed:", request.error);
-        resolve(null); // Fail gracefully
+export const getCacheEntry = async (fingerprint: string): Promise<CacheEntry | null> => {
+  try {
+    const db = await openDB();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(fingerprint);
+      request.onsuccess = () => {
+        const value = request.result;
+        resolve(value?.data ? { fingerprint, fileName: value.fileName, title: value.title, durationMs: value.durationMs, timestamp: value.timestamp, data: migrateProcessedData(value.data) } : null);
       };
+      request.onerror = () => reject(request.error);
     });
   } catch (error) {
-    console.error("Error reading from cache:", error);
+    console.error("[IndexedDB] Reading session failed:", error);
     return null;
   }
 };
+
+const lastCueEndMs = (data: ProcessedData) => data.subtitles.reduce((max, sub) => Math.max(max, sub.endMs), 0);
+
+// --- SESSION LIBRARY ---
+export const summarizeEntry = (entry: CacheEntry): SessionSummary => ({
+  fingerprint: entry.fingerprint,
+  fileName: entry.fileName,
+  title: entry.title || entry.fileName,
+  timestamp: entry.timestamp,
+  durationMs: entry.durationMs || lastCueEndMs(entry.data),
+  originalLanguage: entry.data.originalLanguage,
+  targetLanguage: entry.data.targetLanguage,
+  lineCount: entry.data.subtitles.length,
+  cardCount: entry.data.flashcards.length,
+  noteCount: entry.data.notes.length,
+});
+
+export const listSessions = async (): Promise<SessionSummary[]> =>
+  (await listCacheEntries()).map(summarizeEntry);
+
+// The timestamp is left alone so renaming doesn't reorder the list
+export const renameSession = async (fingerprint: string, title: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(fingerprint);
+    request.onsuccess = () => {
+      if (!request.result) {
+        reject(new Error("This session is no longer saved."));
+        return;
+      }
+      store.put({ ...request.result, title: title.trim() || undefined }, fingerprint);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.error("[IndexedDB] Rename failed:", tx.error);
+      reject(tx.error);
+    };
+  });
+};
+
+// Marks a session as used without changing its library order (see enforceStorageBudget)
+export const touchSession = async (fingerprint: string): Promise<void> => {
+  try {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.get(fingerprint);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, accessedAt: Date.now() }, fingerprint);
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("[IndexedDB] Touching session failed:", error);
+  }
+};
+
+// Removes the transcript with its line clips, practice results, dub progress and vocabulary
+// jump-back sources. Review cards are shared across videos and stay; so do words that are
+// still in another video or were added by hand.
+export const deleteSession = async (fingerprint: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE_NAME, CLIPS_STORE, PRACTICE_STORE, DUBS_STORE, VOCABULARY_STORE], 'readwrite');
+    tx.objectStore(STORE_NAME).delete(fingerprint);
+    tx.objectStore(DUBS_STORE).delete(IDBKeyRange.bound(`${fingerprint}::`, `${fingerprint}::\uffff`));
+
+    const clips = tx.objectStore(CLIPS_STORE).openCursor();
+    clips.onsuccess = () => {
+      const cursor = clips.result;
+      if (!cursor) return;
+      if (cursor.value?.fingerprint === fingerprint) cursor.delete();
+      cursor.continue();
+    };
+
+    const practice = tx.objectStore(PRACTICE_STORE).index('fingerprint').openCursor(IDBKeyRange.only(fingerprint));
+    practice.onsuccess = () => {
+      const cursor = practice.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+
+    // Same rule as syncVocabulary: an entry left with no source and no manual origin goes
+    const vocabulary = tx.objectStore(VOCABULARY_STORE).openCursor();
+    vocabulary.onsuccess = () => {
+      const cursor = vocabulary.result;
+      if (!cursor) return;
+      const vocabEntry = cursor.value as VocabularyEntry;
+      const sources = vocabEntry.sources.filter(source => source.fingerprint !== fingerprint);
+      if (sources.length !== vocabEntry.sources.length) {
+        if (sources.length === 0 && !vocabEntry.manual) cursor.delete();
+        else cursor.update({ ...vocabEntry, sources, updatedAt: Date.now() });
+      }
+      cursor.continue();
+    };
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => {
+      console.error("[IndexedDB] Delete failed:", tx.error);
+      reject(tx.error);
+    };
+  });
+};
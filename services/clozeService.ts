@@ -0,0 +1,79 @@
+import { ClozeRange, Flashcard, MediaRef, Subtitle } from "../types";
+
+// Sentence mining: a whole subtitle line becomes a card with some of its words hidden
+
+export interface LineToken {
+  text: string;
+  start: number;
+  end: number;
+  isWord: boolean;
+}
+
+export interface ClozeSegment {
+  text: string;
+  hidden: boolean;
+}
+
+export const isClozeCard = (card: Flashcard) => card.kind === 'cloze';
+
+// Words keep their punctuation attached so rebuilding the line is lossless
+export const tokenizeLine = (text: string): LineToken[] => {
+  const tokens: LineToken[] = [];
+  const pattern = /\s+|[^\s]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length, isWord: !/^\s+$/.test(match[0]) });
+  }
+  return tokens;
+};
+
+// Sorted, with touching or overlapping ranges joined
+const mergeRanges = (ranges: ClozeRange[]): ClozeRange[] => {
+  const merged: ClozeRange[] = [];
+  [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return merged;
+};
+
+// Adjacent selected words (and the spaces between them) form one gap
+export const rangesFromTokens = (tokens: LineToken[], selected: Set<number>): ClozeRange[] => {
+  const ranges: ClozeRange[] = [];
+  let previousWordSelected = false;
+  tokens.forEach((token, i) => {
+    if (!token.isWord) return;
+    const isSelected = selected.has(i);
+    if (isSelected && previousWordSelected) ranges[ranges.length - 1].end = token.end;
+    else if (isSelected) ranges.push({ start: token.start, end: token.end });
+    previousWordSelected = isSelected;
+  });
+  return ranges;
+};
+
+export const clozeSegments = (context: string, ranges: ClozeRange[] = []): ClozeSegment[] => {
+  const segments: ClozeSegment[] = [];
+  let cursor = 0;
+  mergeRanges(ranges).forEach(({ start, end }) => {
+    if (start > cursor) segments.push({ text: context.slice(cursor, start), hidden: false });
+    segments.push({ text: context.slice(start, end), hidden: true });
+    cursor = end;
+  });
+  if (cursor < context.length) segments.push({ text: context.slice(cursor), hidden: false });
+  return segments;
+};
+
+export const buildClozeCard = (sub: Subtitle, ranges: ClozeRange[], hint: string, media?: MediaRef[]): Flashcard => {
+  const cloze = mergeRanges(ranges);
+  return {
+    id: `cloze-${sub.id}-${Date.now()}`,
+    term: cloze.map(r => sub.textOriginal.slice(r.start, r.end)).join(' … '),
+    definition: hint,
+    context: sub.textOriginal,
+    sourceMs: sub.startMs,
+    kind: 'cloze',
+    cloze,
+    media,
+  };
+};
@@ -0,0 +1,25 @@
+import { Subtitle } from "../types";
+
+// Binary searches over cues sorted by start time (as normalizeSubtitles and the editor leave them),
+// so the playback tick stays cheap with thousands of lines
+
+// Index of the last cue starting at or before timeMs; -1 before the first cue
+export const findLineIndexBefore = (subtitles: Subtitle[], timeMs: number): number => {
+  let lo = 0, hi = subtitles.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (subtitles[mid].startMs <= timeMs) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+// Index of the cue on screen at timeMs (end inclusive); -1 in a gap
+export const findActiveCueIndex = (subtitles: Subtitle[], timeMs: number): number => {
+  const index = findLineIndexBefore(subtitles, timeMs);
+  return index !== -1 && timeMs <= subtitles[index].endMs ? index : -1;
+};
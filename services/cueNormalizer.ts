@@ -0,0 +1,55 @@
+import { Subtitle } from "../types";
+
+const MIN_CUE_MS = 200;
+const FALLBACK_CUE_MS = 2000;
+
+// Repairs cue timing after a model response or a file import:
+// - cues without text (unless keepEmpty) or a usable start time are dropped
+// - reversed cues (end before start) are swapped; zero-length ones get a fallback length
+// - cues starting past the media end are dropped, others are clamped into [0, durationMs]
+// - overlaps are trimmed so every cue ends where the next begins; exact duplicates are dropped
+// Returns a new array sorted by start time with ids renumbered from 1.
+export const normalizeSubtitles = (
+  subtitles: Subtitle[],
+  durationMs?: number | null,
+  options: { keepEmpty?: boolean } = {} // The editor keeps cues inserted but not yet typed in
+): Subtitle[] => {
+  const limit = durationMs && durationMs > 0 ? durationMs : Number.POSITIVE_INFINITY;
+  let repaired = 0;
+
+  const cues = subtitles
+    .filter(sub => (options.keepEmpty || sub.textOriginal.trim()) && Number.isFinite(sub.startMs) && sub.startMs < limit)
+    .map(sub => {
+      let startMs = Math.max(0, Math.round(sub.startMs));
+      let endMs = Number.isFinite(sub.endMs) ? Math.round(sub.endMs) : startMs;
+      if (endMs < startMs) [startMs, endMs] = [Math.max(0, endMs), startMs];
+      if (endMs === startMs) endMs = startMs + FALLBACK_CUE_MS;
+      endMs = Math.min(endMs, limit);
+      if (startMs !== sub.startMs || endMs !== sub.endMs) repaired++;
+      return { ...sub, startMs, endMs };
+    })
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const result: Subtitle[] = [];
+  for (const cue of cues) {
+    const prev = result[result.length - 1];
+    if (prev && prev.startMs === cue.startMs && prev.textOriginal === cue.textOriginal) continue;
+
+    if (prev && prev.endMs > cue.startMs) {
+      // Keep the earlier cue readable; push the later one back if they start almost together
+      const startMs = Math.max(cue.startMs, prev.startMs + MIN_CUE_MS);
+      if (startMs >= limit) continue;
+      cue.startMs = startMs;
+      cue.endMs = Math.max(cue.endMs, Math.min(startMs + MIN_CUE_MS, limit));
+      prev.endMs = startMs;
+      repaired++;
+    }
+    result.push(cue);
+  }
+
+  const dropped = subtitles.length - result.length;
+  if (repaired > 0 || dropped > 0) {
+    console.warn(`Cue timing normalized: ${repaired} repaired, ${dropped} dropped.`);
+  }
+  return result.map((sub, index) => ({ ...sub, id: index + 1 }));
+};
@@ -0,0 +1,38 @@
+import { ProcessedData } from "../types";
+import { DEFAULT_TARGET_LANGUAGE } from "./languages";
+import { parseTimestamp } from "./timeUtils";
+
+// --- Schema Migrations ---
+
+const migrateSubtitle = (sub: any) => {
+  // v1: subtitles carried a fixed 'textVietnamese' field
+  if (sub.textTranslated === undefined) {
+    const { textVietnamese, ...rest } = sub;
+    sub = { ...rest, textTranslated: textVietnamese || '' };
+  }
+  // v2: "HH:MM:SS" startTime/endTime strings
+  if (sub.startMs === undefined) {
+    const { startTime, endTime, ...rest } = sub;
+    sub = { ...rest, startMs: parseTimestamp(startTime) ?? 0, endMs: parseTimestamp(endTime) ?? 0 };
+  }
+  return sub;
+};
+
+const migrateNote = (note: any) => {
+  // v2: "HH:MM:SS" timestamp string
+  if (note.timestampMs !== undefined) return note;
+  const { timestamp, ...rest } = note;
+  return { ...rest, timestampMs: parseTimestamp(timestamp) ?? 0 };
+};
+
+// Brings entries written by older versions up to the current ProcessedData shape.
+// Safe to run repeatedly: already-migrated data passes through unchanged.
+export const migrateProcessedData = (data: any): ProcessedData => {
+  return {
+    ...data,
+    subtitles: (data.subtitles || []).map(migrateSubtitle),
+    notes: (data.notes || []).map(migrateNote),
+    originalLanguage: data.originalLanguage || 'Auto Detect',
+    targetLanguage: data.targetLanguage || DEFAULT_TARGET_LANGUAGE,
+  };
+};
@@ -0,0 +1,93 @@
+import { migrateProcessedData } from "./dataMigrations";
+
+// One IndexedDB database holds every persistent store of the app
+const DB_NAME = 'BilingualFlowDB';
+const DB_VERSION = 10;
+
+export const TRANSLATIONS_STORE = 'translations'; // Key: file fingerprint, index: fileName
+export const REVIEWS_STORE = 'reviews';           // Key: cardKey, index: dueAt
+export const VOCABULARY_STORE = 'vocabulary';     // Key: language + normalized term
+export const CLIPS_STORE = 'clips';               // Key: clip id, value: WAV blob of one line
+export const PRACTICE_STORE = 'practice';         // Key: fingerprint + line text, index: fingerprint
+export const TTS_STORE = 'tts';                   // Key: provider + voice + language + text, value: 16-bit PCM
+export const DUBS_STORE = 'dubs';                 // Key: fingerprint + provider + voice + language, value: finished lines
+
+const migrateStoredEntries = (tx: IDBTransaction) => {
+  const cursorRequest = tx.objectStore(TRANSLATIONS_STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (cursor.value?.data) {
+      cursor.update({ ...cursor.value, data: migrateProcessedData(cursor.value.data) });
+    }
+    cursor.continue();
+  };
+};
+
+export const openDB = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(new Error("Failed to open IndexedDB"));
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      const tx = (event.target as IDBOpenDBRequest).transaction!;
+      if (!db.objectStoreNames.contains(TRANSLATIONS_STORE)) {
+        db.createObjectStore(TRANSLATIONS_STORE);
+      } else if (event.oldVersion < 3) {
+        // v2: textVietnamese -> textTranslated + language fields
+        // v3: string timestamps -> startMs/endMs/timestampMs
+        migrateStoredEntries(tx);
+      }
+      // v8: fallback lookup by file name when the content fingerprint misses
+      const translations = tx.objectStore(TRANSLATIONS_STORE);
+      if (!translations.indexNames.contains('fileName')) {
+        translations.createIndex('fileName', 'fileName');
+      }
+      // v4: spaced-repetition state, shared by every video
+      if (!db.objectStoreNames.contains(REVIEWS_STORE)) {
+        const reviews = db.createObjectStore(REVIEWS_STORE, { keyPath: 'cardKey' });
+        reviews.createIndex('dueAt', 'dueAt');
+      }
+      // v5: vocabulary library aggregated across videos
+      if (!db.objectStoreNames.contains(VOCABULARY_STORE)) {
+        db.createObjectStore(VOCABULARY_STORE, { keyPath: 'key' });
+      }
+      // v6: audio clips cut from the source media, referenced by cards
+      if (!db.objectStoreNames.contains(CLIPS_STORE)) {
+        db.createObjectStore(CLIPS_STORE, { keyPath: 'id' });
+      }
+      // v7: shadowing / dictation results per line
+      if (!db.objectStoreNames.contains(PRACTICE_STORE)) {
+        const practice = db.createObjectStore(PRACTICE_STORE, { keyPath: 'key' });
+        practice.createIndex('fingerprint', 'fingerprint');
+      }
+      // v9: synthesized speech, shared by the player, dub export and Anki export
+      if (!db.objectStoreNames.contains(TTS_STORE)) {
+        db.createObjectStore(TTS_STORE, { keyPath: 'key' });
+      }
+      // v10: dub track checkpoints, so an interrupted export resumes
+      if (!db.objectStoreNames.contains(DUBS_STORE)) {
+        db.createObjectStore(DUBS_STORE, { keyPath: 'key' });
+      }
+    };
+  });
+};
+
+// Runs a single request in its own transaction and resolves with its result
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
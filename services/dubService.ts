@@ -0,0 +1,171 @@
+import { Subtitle } from "../types";
+import { runWithCancellation } from "./abortUtils";
+import { audioBufferToWav } from "./audioUtils";
+import { DUBS_STORE, runRequest } from "./db";
+import { runJobs } from "./jobRunner";
+import { loadProviderSettings } from "./providerSettings";
+import { getSpeech, getStoredSpeech } from "./ttsCacheService";
+
+// Renders the translated track as one WAV, timed to the cues. Lines are synthesized in parallel
+// under a rate limit, and finished lines are checkpointed so a closed tab or a cancel can resume.
+
+export interface DubSettings {
+  concurrency: number;       // Requests in flight at once
+  requestsPerMinute: number; // Shared by all of them
+}
+
+export interface DubFailure {
+  sub: Subtitle;
+  error: string;
+}
+
+export interface DubResult {
+  blob: Blob;
+  failures: DubFailure[]; // Lines left silent in the track
+}
+
+interface DubCheckpoint {
+  key: string;
+  fingerprint: string;
+  completed: string[]; // lineKey of every synthesized line
+  updatedAt: number;
+}
+
+interface DubRequest {
+  fingerprint: string;
+  subtitles: Subtitle[];
+  voice: string;
+  language: string;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+const SETTINGS_KEY = "dub_settings";
+const DEFAULT_SETTINGS: DubSettings = { concurrency: 3, requestsPerMinute: 20 };
+const SAMPLE_RATE = 24000;
+const TAIL_SECONDS = 10;
+const CHECKPOINT_INTERVAL_MS = 2000; // The checkpoint is rewritten at most this often while running
+
+// --- SETTINGS ---
+export const loadDubSettings = (): DubSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring malformed dub settings", e);
+  }
+  return { ...DEFAULT_SETTINGS };
+};
+
+export const saveDubSettings = (settings: DubSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- CHECKPOINTS ---
+// A different voice, language or provider is a different dub; an edited line no longer matches its key
+const checkpointKey = (fingerprint: string, voice: string, language: string) =>
+  `${fingerprint}::${loadProviderSettings().provider}::${voice}::${language}`;
+
+const lineKey = (sub: Subtitle) => `${sub.startMs}::${sub.textTranslated.trim()}`;
+
+const dubbableLines = (subtitles: Subtitle[]) => subtitles.filter(sub => sub.textTranslated.trim());
+
+const readCheckpoint = async (key: string): Promise<DubCheckpoint | undefined> => {
+  try {
+    return await runRequest<DubCheckpoint | undefined>(DUBS_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error("[IndexedDB] Reading dub checkpoint failed:", error);
+    return undefined;
+  }
+};
+
+const writeCheckpoint = async (checkpoint: DubCheckpoint) => {
+  try {
+    await runRequest(DUBS_STORE, 'readwrite', store => store.put(checkpoint));
+  } catch (error) {
+    console.error("[IndexedDB] Saving dub checkpoint failed:", error);
+  }
+};
+
+const clearCheckpoint = async (key: string) => {
+  try {
+    await runRequest(DUBS_STORE, 'readwrite', store => store.delete(key));
+  } catch (error) {
+    console.error("[IndexedDB] Clearing dub checkpoint failed:", error);
+  }
+};
+
+// Lines of an unfinished dub that are already done; null when there is nothing to resume
+export const getDubProgress = async (fingerprint: string, subtitles: Subtitle[], voice: string, language: string) => {
+  const checkpoint = await readCheckpoint(checkpointKey(fingerprint, voice, language));
+  if (!checkpoint) return null;
+  const completed = new Set(checkpoint.completed);
+  const lines = dubbableLines(subtitles);
+  const done = lines.filter(sub => completed.has(lineKey(sub))).length;
+  return done > 0 ? { done, total: lines.length } : null;
+};
+
+// --- RENDERING ---
+export const generateDubTrack = async (request: DubRequest): Promise<DubResult> => {
+  const { fingerprint, subtitles, voice, language, onProgress, signal } = request;
+  const { concurrency, requestsPerMinute } = loadDubSettings();
+  const key = checkpointKey(fingerprint, voice, language);
+  const completed = new Set((await readCheckpoint(key))?.completed);
+
+  const lines = dubbableLines(subtitles);
+  const totalDuration = subtitles.length > 0 ? subtitles[subtitles.length - 1].endMs / 1000 + TAIL_SECONDS : 60;
+  const audioContext = new AudioContext();
+  const offlineCtx = new OfflineAudioContext(1, Math.ceil(SAMPLE_RATE * totalDuration), SAMPLE_RATE);
+
+  let done = 0;
+  const place = (sub: Subtitle, buffer: AudioBuffer) => {
+    const source = offlineCtx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(offlineCtx.destination);
+    source.start(sub.startMs / 1000);
+    done++;
+    if (onProgress) onProgress(done, lines.length);
+  };
+
+  let savedAt = Date.now();
+  const saveProgress = () => {
+    savedAt = Date.now();
+    return writeCheckpoint({ key, fingerprint, completed: [...completed], updatedAt: savedAt });
+  };
+
+  try {
+    // Finished lines come back from the TTS cache; any it has since evicted are synthesized again
+    const pending: Subtitle[] = [];
+    for (const sub of lines) {
+      const stored = completed.has(lineKey(sub)) ? await getStoredSpeech(sub.textTranslated, voice, language, audioContext) : null;
+      if (stored) place(sub, stored);
+      else pending.push(sub);
+    }
+
+    const failed = await runJobs(
+      pending,
+      sub => runWithCancellation(getSpeech(sub.textTranslated, voice, language, audioContext), signal),
+      {
+        concurrency,
+        requestsPerMinute,
+        signal,
+        onJobDone: (sub, buffer) => {
+          place(sub, buffer);
+          completed.add(lineKey(sub));
+          if (Date.now() - savedAt > CHECKPOINT_INTERVAL_MS) saveProgress();
+        },
+      }
+    );
+
+    const rendered = await offlineCtx.startRendering();
+    return {
+      blob: audioBufferToWav(rendered),
+      failures: failed.map(({ item, error }) => ({ sub: item, error: error.message || String(error) })),
+    };
+  } finally {
+    // Cancelled or not, what is done stays done; a complete dub needs no checkpoint
+    if (lines.every(sub => completed.has(lineKey(sub)))) await clearCheckpoint(key);
+    else await saveProgress();
+    audioContext.close();
+  }
+};
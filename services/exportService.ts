@@ -0,0 +1,118 @@
+import { ProcessedData, Subtitle } from "../types";
+import { getTrackText, SubtitleTrack } from "./subtitleTracks";
+import { formatASSTimestamp, formatTimestamp } from "./timeUtils";
+
+export type ExportFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; mime: string }[] = [
+  { id: 'srt', label: 'SubRip (.srt)', mime: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT (.vtt)', mime: 'text/vtt' },
+  { id: 'ass', label: 'Advanced SubStation (.ass)', mime: 'text/x-ssa' },
+  { id: 'json', label: 'Full Data (.json)', mime: 'application/json' },
+];
+
+// Bumped whenever the JSON dump layout changes
+const JSON_EXPORT_VERSION = 2;
+
+const trackLines = (sub: Subtitle, tracks: SubtitleTrack[]) =>
+  tracks.map(track => ({ track, text: getTrackText(sub, track).trim() })).filter(l => l.text);
+
+// --- SRT ---
+const toSRT = (subtitles: Subtitle[], tracks: SubtitleTrack[]) =>
+  subtitles.map((sub, index) => [
+    `${index + 1}`,
+    `${formatTimestamp(sub.startMs, ',')} --> ${formatTimestamp(sub.endMs, ',')}`,
+    ...trackLines(sub, tracks).map(l => l.text),
+  ].join('\n')).join('\n\n') + '\n';
+
+// --- WebVTT ---
+const escapeVTT = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Each line is wrapped in a class span so players can style the original and translations apart
+const VTT_STYLE = `STYLE
+::cue(.original) {
+  color: #ffffff;
+}
+::cue(.translation) {
+  color: #fde047;
+}`;
+
+const toVTT = (subtitles: Subtitle[], tracks: SubtitleTrack[]) => {
+  const cues = subtitles.map((sub, index) => [
+    `${index + 1}`,
+    `${formatTimestamp(sub.startMs)} --> ${formatTimestamp(sub.endMs)}`,
+    ...trackLines(sub, tracks).map(({ track, text }) =>
+      `<c.${track.kind === 'original' ? 'original' : 'translation'}>${escapeVTT(text)}</c>`),
+  ].join('\n'));
+  return ['WEBVTT', VTT_STYLE, ...cues].join('\n\n') + '\n';
+};
+
+// --- ASS / SSA ---
+const ASS_BASE_MARGIN = 30;
+const ASS_LINE_SPACING = 55;
+
+// Colours are &HAABBGGRR
+const ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Original,Arial,44,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,${ASS_BASE_MARGIN},1
+Style: Translation,Arial,50,&H0047E0FD,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,2,1,2,40,40,${ASS_BASE_MARGIN},1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text`;
+
+// Braces open override blocks and line breaks must be \N
+const escapeASS = (text: string) => text.replace(/[{}]/g, '').replace(/\r?\n/g, '\\N');
+
+const toASS = (subtitles: Subtitle[], tracks: SubtitleTrack[]) => {
+  const events: string[] = [];
+  subtitles.forEach(sub => {
+    const lines = trackLines(sub, tracks);
+    lines.forEach(({ track, text }, i) => {
+      // Lines stack upwards from the bottom in track order, each on its own Dialogue event
+      const marginV = ASS_BASE_MARGIN + (lines.length - 1 - i) * ASS_LINE_SPACING;
+      const style = track.kind === 'original' ? 'Original' : 'Translation';
+      events.push(`Dialogue: 0,${formatASSTimestamp(sub.startMs)},${formatASSTimestamp(sub.endMs)},${style},,0,0,${marginV},,${escapeASS(text)}`);
+    });
+  });
+  return [ASS_HEADER, ...events].join('\n') + '\n';
+};
+
+// --- JSON (lossless, every track and all study material) ---
+const toJSON = (data: ProcessedData) =>
+  JSON.stringify({ version: JSON_EXPORT_VERSION, exportedAt: new Date().toISOString(), data }, null, 2);
+
+export const buildExport = (format: ExportFormat, data: ProcessedData, tracks: SubtitleTrack[]): string => {
+  switch (format) {
+    case 'srt': return toSRT(data.subtitles, tracks);
+    case 'vtt': return toVTT(data.subtitles, tracks);
+    case 'ass': return toASS(data.subtitles, tracks);
+    case 'json': return toJSON(data);
+  }
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadExport = (format: ExportFormat, data: ProcessedData, tracks: SubtitleTrack[], baseName: string) => {
+  const { mime } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const suffix = format === 'json' ? 'study' : tracks.map(t => t.id).join('+');
+  downloadBlob(
+    new Blob([buildExport(format, data, tracks)], { type: `${mime};charset=utf-8` }),
+    `${baseName}_${suffix}.${format}`
+  );
+};
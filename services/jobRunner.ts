@@ -0,0 +1,118 @@
+import { CANCELLED_MESSAGE, delay, throwIfAborted } from "./abortUtils";
+
+// Runs independent API jobs with a concurrency cap, a shared request rate (token bucket) and
+// per-job retries. A 429 from any job pauses every worker with exponential backoff.
+
+export interface JobRunnerOptions<T, R> {
+  concurrency: number;
+  requestsPerMinute: number;
+  maxAttempts?: number; // Per job, including the first; rate-limited attempts don't count
+  signal?: AbortSignal;
+  onJobDone?: (item: T, result: R, index: number) => void;
+}
+
+export interface JobFailure<T> {
+  item: T;
+  index: number;
+  error: Error;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_RATE_LIMIT_RETRIES = 6;
+const RETRY_BASE_MS = 1000;
+const RATE_LIMIT_BASE_MS = 5000;
+const MAX_BACKOFF_MS = 2 * 60 * 1000;
+
+export const isRateLimitError = (error: any) => {
+  const msg = String(error?.message || '');
+  return error?.status === 429 || msg.includes('429') || msg.includes('RESOURCE_EXHAUSTED');
+};
+
+// Doubles per try, with jitter so parallel workers don't retry in lockstep
+const backoffMs = (base: number, retry: number) =>
+  Math.min(MAX_BACKOFF_MS, base * 2 ** retry) * (1 + Math.random() * 0.25);
+
+// --- TOKEN BUCKET ---
+// Holds up to `capacity` requests and refills at `perMinute`; pause() empties it for a while
+const createTokenBucket = (perMinute: number, capacity: number) => {
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) * perMinute) / 60000);
+    refilledAt = now;
+  };
+
+  return {
+    take: async (signal?: AbortSignal) => {
+      while (true) {
+        throwIfAborted(signal);
+        const wait = pausedUntil - Date.now();
+        if (wait > 0) {
+          await delay(wait, signal);
+          continue;
+        }
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await delay(Math.ceil(((1 - tokens) * 60000) / perMinute), signal);
+      }
+    },
+    pause: (ms: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      tokens = 0;
+      refilledAt = pausedUntil;
+    },
+  };
+};
+
+// --- RUNNER ---
+// Resolves with the jobs that still failed after their retries; rejects only when cancelled
+export const runJobs = async <T, R>(
+  items: T[],
+  worker: (item: T, signal?: AbortSignal) => Promise<R>,
+  options: JobRunnerOptions<T, R>
+): Promise<JobFailure<T>[]> => {
+  const { concurrency, requestsPerMinute, maxAttempts = DEFAULT_MAX_ATTEMPTS, signal, onJobDone } = options;
+  const bucket = createTokenBucket(Math.max(1, requestsPerMinute), Math.max(1, concurrency));
+  const failures: JobFailure<T>[] = [];
+  let next = 0;
+
+  const runOne = async (item: T, index: number) => {
+    let attempts = 0;
+    let rateLimits = 0;
+    while (true) {
+      await bucket.take(signal);
+      try {
+        const result = await worker(item, signal);
+        onJobDone?.(item, result, index);
+        return;
+      } catch (error: any) {
+        if (signal?.aborted || error?.message === CANCELLED_MESSAGE) throw new Error(CANCELLED_MESSAGE);
+
+        if (isRateLimitError(error) && rateLimits < MAX_RATE_LIMIT_RETRIES) {
+          bucket.pause(backoffMs(RATE_LIMIT_BASE_MS, rateLimits++));
+          continue;
+        }
+        if (++attempts >= maxAttempts) {
+          failures.push({ item, index, error: error instanceof Error ? error : new Error(String(error)) });
+          return;
+        }
+        await delay(backoffMs(RETRY_BASE_MS, attempts - 1), signal);
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await runOne(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return failures.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,24 @@
+export interface LanguageInfo {
+  name: string; // Used in prompts and stored on ProcessedData
+  code: string; // BCP-47 tag for TTS voices and speech hints
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { name: 'Vietnamese', code: 'vi-VN' },
+  { name: 'English', code: 'en-US' },
+  { name: 'Japanese', code: 'ja-JP' },
+  { name: 'Korean', code: 'ko-KR' },
+  { name: 'Chinese', code: 'zh-CN' },
+  { name: 'French', code: 'fr-FR' },
+  { name: 'Spanish', code: 'es-ES' },
+  { name: 'German', code: 'de-DE' },
+];
+
+export const DEFAULT_TARGET_LANGUAGE = 'Vietnamese';
+
+export const getLanguageName = (code: string): string =>
+  LANGUAGES.find(l => l.code === code)?.name || code;
+
+// 'Auto Detect' and unknown names fall back to English, the most common source language
+export const getLanguageCode = (name?: string): string =>
+  LANGUAGES.find(l => l.name === name)?.code || 'en-US';
@@ -0,0 +1,68 @@
+// Decodes the soundtrack of a media file in the browser for waveform display and analysis
+
+// Decoding a long video holds its whole PCM track in memory, so very large files are skipped
+const MAX_DECODE_BYTES = 500 * 1024 * 1024;
+
+export interface WaveformData {
+  peaks: Float32Array; // Max absolute amplitude per bucket, 0..1 (drawing)
+  rms: Float32Array;   // Root-mean-square energy per bucket (speech detection)
+  bucketMs: number;
+  durationMs: number;
+}
+
+export const decodeMediaAudio = async (file: File): Promise<AudioBuffer> => {
+  if (file.size > MAX_DECODE_BYTES) throw new Error("File is too large to analyse in the browser.");
+
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const audioContext: AudioContext = new AudioContextClass();
+  try {
+    return await audioContext.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    console.error("Audio decoding failed:", error);
+    throw new Error("Could not decode the audio track of this file.");
+  } finally {
+    audioContext.close();
+  }
+};
+
+// One pass over the PCM data; the decoded buffer itself is not kept around
+export const computeWaveform = (buffer: AudioBuffer, bucketMs = 20): WaveformData => {
+  const samplesPerBucket = Math.max(1, Math.floor((buffer.sampleRate * bucketMs) / 1000));
+  const bucketCount = Math.ceil(buffer.length / samplesPerBucket);
+  const peaks = new Float32Array(bucketCount);
+  const sumSquares = new Float64Array(bucketCount);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      const bucket = Math.floor(i / samplesPerBucket);
+      const value = Math.abs(data[i]);
+      if (value > peaks[bucket]) peaks[bucket] = value;
+      sumSquares[bucket] += value * value;
+    }
+  }
+  const rms = new Float32Array(bucketCount);
+  const samplesPerRms = samplesPerBucket * buffer.numberOfChannels;
+  for (let b = 0; b < bucketCount; b++) rms[b] = Math.sqrt(sumSquares[b] / samplesPerRms);
+  return { peaks, rms, bucketMs, durationMs: Math.round(buffer.duration * 1000) };
+};
+
+export const loadWaveform = async (file: File, bucketMs = 20): Promise<WaveformData> =>
+  computeWaveform(await decodeMediaAudio(file), bucketMs);
+
+// Reads only the container metadata; null when the browser can't tell (or takes too long)
+export const getMediaDurationMs = (file: File, timeoutMs = 10000): Promise<number | null> =>
+  new Promise(resolve => {
+    const media = document.createElement(file.type.startsWith('audio') ? 'audio' : 'video');
+    const url = URL.createObjectURL(file);
+    const finish = (durationMs: number | null) => {
+      clearTimeout(timer);
+      media.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(durationMs);
+    };
+    const timer = window.setTimeout(() => finish(null), timeoutMs);
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? Math.round(media.duration * 1000) : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
@@ -0,0 +1,286 @@
+import { PracticeAttempt, PracticeRecord, Subtitle } from "../types";
+import { PRACTICE_STORE, runRequest } from "./db";
+import { computeWaveform } from "./mediaAudioService";
+
+// Scoring for shadowing (speak the line after the original) and dictation (type it)
+
+const ENVELOPE_FRAME_MS = 20;
+const PITCH_FRAME_MS = 40;
+const PITCH_MIN_HZ = 70;
+const PITCH_MAX_HZ = 400;
+const PITCH_SAMPLE_RATE = 11025;  // Audio is decimated to about this rate before pitch tracking
+const VOICED_CORRELATION = 0.5;
+const SILENCE_RATIO = 0.1;        // Frames below this share of the peak level count as silence at the edges
+const OVERLAY_POINTS = 200;       // Both attempts are stretched to this many points for the overlay
+const MAX_STORED_ATTEMPTS = 20;
+
+// How much each measure counts towards the shadowing score (missing measures are left out)
+const WEIGHTS = { duration: 0.2, envelope: 0.3, pitch: 0.2, text: 0.3 };
+
+export interface VoiceProfile {
+  durationMs: number;   // Speech between the first and last loud frame
+  envelope: number[];   // Loudness, 0..1, OVERLAY_POINTS long
+  pitch: number[];      // Semitones around the speaker's median, NaN where unvoiced
+}
+
+export interface ShadowingResult {
+  score: number;
+  durationScore: number;
+  envelopeScore: number;
+  pitchScore: number | null;  // null when either side has too little voiced speech
+  textScore: number | null;   // null without speech recognition
+  original: VoiceProfile;
+  attempt: VoiceProfile;
+}
+
+export type WordStatus = 'correct' | 'wrong' | 'missing' | 'extra';
+
+export interface WordDiff {
+  text: string;      // Expected word; the typed word for 'extra'
+  typed?: string;    // What was typed instead, for 'wrong'
+  status: WordStatus;
+}
+
+export interface DictationResult {
+  score: number;
+  words: WordDiff[];
+}
+
+// --- SIGNAL HELPERS ---
+const resample = (values: ArrayLike<number>, length: number): number[] => {
+  if (values.length === 0) return new Array(length).fill(0);
+  return Array.from({ length }, (_, i) => {
+    const pos = (i / Math.max(1, length - 1)) * (values.length - 1);
+    const lo = Math.floor(pos);
+    const hi = Math.min(values.length - 1, lo + 1);
+    const a = values[lo], b = values[hi];
+    // Unvoiced (NaN) frames are not interpolated into their neighbours
+    if (Number.isNaN(a) || Number.isNaN(b)) return pos - lo < 0.5 ? a : b;
+    return a + (b - a) * (pos - lo);
+  });
+};
+
+const pearson = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA && varB ? cov / Math.sqrt(varA * varB) : 0;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const monoSamples = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// Autocorrelation pitch per frame on decimated audio; 0 where the frame is unvoiced
+const trackPitch = (buffer: AudioBuffer): Float32Array => {
+  const factor = Math.max(1, Math.floor(buffer.sampleRate / PITCH_SAMPLE_RATE));
+  const rate = buffer.sampleRate / factor;
+  const source = monoSamples(buffer);
+  const samples = new Float32Array(Math.floor(source.length / factor));
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += source[i * factor + j];
+    samples[i] = sum / factor;
+  }
+
+  const frameSize = Math.floor((rate * PITCH_FRAME_MS) / 1000);
+  const minLag = Math.floor(rate / PITCH_MAX_HZ);
+  const maxLag = Math.min(frameSize - 1, Math.ceil(rate / PITCH_MIN_HZ));
+  const frameCount = Math.floor(samples.length / frameSize);
+  const pitch = new Float32Array(frameCount);
+  const energies = Array.from({ length: frameCount }, (_, f) => {
+    let energy = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) energy += samples[i] ** 2;
+    return energy;
+  });
+  const loudest = energies.reduce((m, e) => Math.max(m, e), 0);
+
+  for (let f = 0; f < frameCount; f++) {
+    if (energies[f] < loudest * SILENCE_RATIO) continue;
+    const offset = f * frameSize;
+
+    // Normalized autocorrelation over the overlapping part only, so long lags are not penalized
+    const correlations = new Float32Array(maxLag + 1);
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let cross = 0, headEnergy = 0, tailEnergy = 0;
+      for (let i = 0; i + lag < frameSize; i++) {
+        const x = samples[offset + i], y = samples[offset + i + lag];
+        cross += x * y;
+        headEnergy += x * x;
+        tailEnergy += y * y;
+      }
+      correlations[lag] = headEnergy && tailEnergy ? cross / Math.sqrt(headEnergy * tailEnergy) : 0;
+      best = Math.max(best, correlations[lag]);
+    }
+    if (best < VOICED_CORRELATION) continue;
+
+    // The shortest lag close to the best one is the period; longer ones are its multiples
+    for (let lag = minLag + 1; lag < maxLag; lag++) {
+      const isPeak = correlations[lag] >= correlations[lag - 1] && correlations[lag] >= correlations[lag + 1];
+      if (isPeak && correlations[lag] >= best * 0.9) {
+        pitch[f] = rate / lag;
+        break;
+      }
+    }
+  }
+  return pitch;
+};
+
+// Loudness and intonation of the spoken part of a recording, time-normalized
+export const analyseVoice = (buffer: AudioBuffer): VoiceProfile => {
+  const { rms } = computeWaveform(buffer, ENVELOPE_FRAME_MS);
+  const peak = rms.reduce((m, v) => Math.max(m, v), 0) || 1;
+  let first = rms.findIndex(v => v >= peak * SILENCE_RATIO);
+  let last = rms.length - 1;
+  while (last > first && rms[last] < peak * SILENCE_RATIO) last--;
+  if (first === -1) { first = 0; last = rms.length - 1; }
+
+  const spoken = Array.from(rms.slice(first, last + 1), v => v / peak);
+  const pitchHz = trackPitch(buffer);
+  const framesPerPitch = PITCH_FRAME_MS / ENVELOPE_FRAME_MS;
+  const spokenPitch = Array.from(pitchHz.slice(Math.floor(first / framesPerPitch), Math.ceil((last + 1) / framesPerPitch)));
+  const voiced = spokenPitch.filter(hz => hz > 0);
+  const reference = voiced.length ? median(voiced) : 1;
+  // Semitones around the speaker's own median, so a low and a high voice compare by shape
+  const semitones = spokenPitch.map(hz => hz > 0 ? 12 * Math.log2(hz / reference) : NaN);
+
+  return {
+    durationMs: (last - first + 1) * ENVELOPE_FRAME_MS,
+    envelope: resample(spoken, OVERLAY_POINTS),
+    pitch: resample(semitones, OVERLAY_POINTS),
+  };
+};
+
+// --- TEXT COMPARISON ---
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[\p{P}\p{S}]/gu, '');
+
+// Scripts written without spaces (Japanese, Chinese) are compared per character
+const splitWords = (text: string): string[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  const words = trimmed.split(/\s+/);
+  if (words.length === 1 && trimmed.length > 4) return Array.from(trimmed);
+  return words;
+};
+
+// Word-level LCS diff of what was expected against what was typed or heard
+export const diffWords = (expected: string, actual: string): DictationResult => {
+  const exp = splitWords(expected).filter(w => normalizeWord(w));
+  const act = splitWords(actual).filter(w => normalizeWord(w));
+  const a = exp.map(normalizeWord), b = act.map(normalizeWord);
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const words: WordDiff[] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      words.push({ text: exp[i], status: 'correct' });
+      i++; j++;
+    } else if (i < a.length && j < b.length && lcs[i + 1][j + 1] === lcs[i][j]) {
+      // Neither side is part of the common sequence here: a substitution
+      words.push({ text: exp[i], typed: act[j], status: 'wrong' });
+      i++; j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      words.push({ text: act[j], status: 'extra' });
+      j++;
+    } else {
+      words.push({ text: exp[i], status: 'missing' });
+      i++;
+    }
+  }
+
+  const correct = words.filter(w => w.status === 'correct').length;
+  const score = Math.round((correct / Math.max(1, a.length, b.length)) * 100);
+  return { score, words };
+};
+
+// --- SHADOWING ---
+export const scoreShadowing = (
+  original: AudioBuffer,
+  attempt: AudioBuffer,
+  expectedText: string,
+  heardText?: string
+): ShadowingResult => {
+  const o = analyseVoice(original);
+  const a = analyseVoice(attempt);
+
+  const durationScore = Math.round((Math.min(o.durationMs, a.durationMs) / Math.max(o.durationMs, a.durationMs, 1)) * 100);
+  const envelopeScore = Math.round(Math.max(0, pearson(o.envelope, a.envelope)) * 100);
+
+  const bothVoiced = o.pitch.map((p, i) => [p, a.pitch[i]]).filter(([p, q]) => !Number.isNaN(p) && !Number.isNaN(q));
+  const pitchScore = bothVoiced.length >= 10
+    ? Math.round(Math.max(0, pearson(bothVoiced.map(v => v[0]), bothVoiced.map(v => v[1]))) * 100)
+    : null;
+  const textScore = heardText !== undefined ? diffWords(expectedText, heardText).score : null;
+
+  const parts: [number, number][] = [
+    [durationScore, WEIGHTS.duration],
+    [envelopeScore, WEIGHTS.envelope],
+    ...(pitchScore !== null ? [[pitchScore, WEIGHTS.pitch] as [number, number]] : []),
+    ...(textScore !== null ? [[textScore, WEIGHTS.text] as [number, number]] : []),
+  ];
+  const totalWeight = parts.reduce((s, [, w]) => s + w, 0);
+  const score = Math.round(parts.reduce((s, [v, w]) => s + v * w, 0) / totalWeight);
+
+  return { score, durationScore, envelopeScore, pitchScore, textScore, original: o, attempt: a };
+};
+
+// --- PERSISTENCE ---
+const practiceKey = (fingerprint: string, text: string) =>
+  `${fingerprint}::${text.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+
+export const getPracticeRecords = async (fingerprint: string): Promise<PracticeRecord[]> => {
+  try {
+    return await runRequest<PracticeRecord[]>(PRACTICE_STORE, 'readonly',
+      store => store.index('fingerprint').getAll(fingerprint));
+  } catch (error) {
+    console.error("[IndexedDB] Reading practice results failed:", error);
+    return [];
+  }
+};
+
+export const findPracticeRecord = (records: PracticeRecord[], fingerprint: string, sub: Subtitle) => {
+  const key = practiceKey(fingerprint, sub.textOriginal);
+  return records.find(r => r.key === key);
+};
+
+export const recordPracticeAttempt = async (fingerprint: string, sub: Subtitle, attempt: PracticeAttempt): Promise<PracticeRecord> => {
+  const key = practiceKey(fingerprint, sub.textOriginal);
+  const existing = await runRequest<PracticeRecord | undefined>(PRACTICE_STORE, 'readonly', store => store.get(key));
+  const record: PracticeRecord = {
+    key,
+    fingerprint,
+    text: sub.textOriginal,
+    startMs: sub.startMs,
+    attempts: [...(existing?.attempts || []), attempt].slice(-MAX_STORED_ATTEMPTS),
+    bestScore: Math.max(existing?.bestScore ?? 0, attempt.score),
+    lastScore: attempt.score,
+    updatedAt: attempt.at,
+  };
+  await runRequest(PRACTICE_STORE, 'readwrite', store => store.put(record));
+  return record;
+};
@@ -0,0 +1,259 @@
+import { ProcessedData, ProcessingOptions, StatusUpdateCallback, Subtitle } from "../types";
+import { AIProvider, getProvider, ProviderContext, TermDefinition, TimeWindow, TranscriptCue } from "./aiProvider";
+import { CANCELLED_MESSAGE, throwIfAborted } from "./abortUtils";
+import { formatTime, secondsToMs } from "./timeUtils";
+import { normalizeSubtitles } from "./cueNormalizer";
+import { getLanguageCode } from "./languages";
+import { loadProviderSettings } from "./providerSettings";
+import { locateInTranscript } from "./vocabularyService";
+
+const TIMESTAMP_TOLERANCE_SECONDS = 2;
+const TRANSLATE_BATCH_SIZE = 50;
+
+// --- HELPER: Read media duration without decoding the whole file ---
+export const getMediaDuration = (file: File): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement(file.type.startsWith('audio') ? 'audio' : 'video');
+    const finish = (value: number | null) => {
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+      resolve(value);
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+};
+
+const buildWindows = (durationSec: number | null, segmentSeconds: number | null): TimeWindow[] => {
+  // Unknown duration or a whole-file provider: one open-ended window
+  if (!durationSec || durationSec <= 0 || !segmentSeconds) return [{ start: 0, end: Number.POSITIVE_INFINITY }];
+
+  const windows: TimeWindow[] = [];
+  for (let start = 0; start < durationSec; start += segmentSeconds) {
+    windows.push({ start, end: Math.min(start + segmentSeconds, durationSec) });
+  }
+  return windows;
+};
+
+const describeWindow = (win: TimeWindow) =>
+  isFinite(win.end) ? `${formatTime(secondsToMs(win.start))}–${formatTime(secondsToMs(win.end))}` : 'full media';
+
+// Drop cues that belong to neighbouring windows so the seams do not duplicate lines
+const clipToWindow = (cues: TranscriptCue[], win: TimeWindow) =>
+  cues.filter(c => c.start >= win.start - TIMESTAMP_TOLERANCE_SECONDS && c.start < win.end);
+
+const stitchCues = (cues: TranscriptCue[], durationSec: number | null): Subtitle[] => {
+  const subtitles = cues.map((c, index) => ({
+    id: index + 1,
+    startMs: secondsToMs(c.start),
+    endMs: secondsToMs(c.end),
+    textOriginal: c.original,
+    textTranslated: c.translation || ''
+  }));
+  return normalizeSubtitles(subtitles, durationSec ? secondsToMs(durationSec) : null);
+};
+
+// Translates lines in batches; progress is reported inside [fromPct, toPct]
+const translateLines = async (
+  lines: string[],
+  provider: AIProvider,
+  ctx: ProviderContext,
+  fromPct: number,
+  toPct: number
+): Promise<string[]> => {
+  const result: string[] = [];
+  const language = ctx.options.targetLanguage;
+  for (let i = 0; i < lines.length; i += TRANSLATE_BATCH_SIZE) {
+    throwIfAborted(ctx.signal);
+    const batch = lines.slice(i, i + TRANSLATE_BATCH_SIZE);
+    if (ctx.onStatusUpdate) {
+      ctx.onStatusUpdate(
+        `Translating lines ${i + 1}-${i + batch.length} of ${lines.length} into ${language}...`,
+        fromPct + Math.floor((i / lines.length) * (toPct - fromPct))
+      );
+    }
+    const translated = await provider.translate(batch, ctx);
+    batch.forEach((_, j) => result.push(translated[j] || ''));
+  }
+  return result;
+};
+
+// Fill in translations the provider did not produce while transcribing
+const translateMissing = async (subtitles: Subtitle[], provider: AIProvider, ctx: ProviderContext) => {
+  const pending = subtitles.filter(s => !s.textTranslated && s.textOriginal);
+  const translated = await translateLines(pending.map(s => s.textOriginal), provider, ctx, 80, 86);
+  pending.forEach((sub, i) => { sub.textTranslated = translated[i]; });
+};
+
+// Adds (or replaces) one extra translation track on every subtitle
+const translateTrack = async (
+  subtitles: Subtitle[],
+  languageName: string,
+  provider: AIProvider,
+  ctx: ProviderContext,
+  fromPct: number,
+  toPct: number
+): Promise<Subtitle[]> => {
+  const code = getLanguageCode(languageName);
+  const trackCtx: ProviderContext = { ...ctx, options: { ...ctx.options, targetLanguage: languageName } };
+  const translated = await translateLines(subtitles.map(s => s.textOriginal), provider, trackCtx, fromPct, toPct);
+  return subtitles.map((sub, i) => ({ ...sub, translations: { ...sub.translations, [code]: translated[i] } }));
+};
+
+const withTrack = (codes: string[] | undefined, code: string) =>
+  (codes || []).includes(code) ? (codes || []) : [...(codes || []), code];
+
+const toFriendlyError = (error: any, provider: AIProvider): Error => {
+  if (error.message === CANCELLED_MESSAGE || error.name === 'AbortError') return new Error(CANCELLED_MESSAGE);
+
+  console.error(`${provider.label} processing error:`, error);
+  const msg = error.message || '';
+  if (msg.includes('429')) return new Error("API Quota Exceeded. Please try again later.");
+  if (msg.includes('503')) return new Error("Server overloaded. Try again shortly.");
+  if (msg.includes('SAFETY')) return new Error("Content blocked by safety filters.");
+  if (msg.includes('400') && msg.includes('context')) return new Error("File too long (Context Exceeded).");
+  if (msg.includes('403') || msg.includes('API Key')) return new Error("Invalid API Key. Please check your settings.");
+
+  return error;
+};
+
+const transcribeMedia = async (file: File, provider: AIProvider, ctx: ProviderContext): Promise<Subtitle[]> => {
+  const { onStatusUpdate, signal } = ctx;
+
+  if (onStatusUpdate) onStatusUpdate("Reading media duration...", 5);
+  const duration = await getMediaDuration(file);
+  const media = await provider.prepareMedia(file, duration, ctx);
+
+  // Segments share the 40-80% band of the progress bar
+  const windows = buildWindows(duration, provider.segmentSeconds);
+  const cues: TranscriptCue[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    throwIfAborted(signal);
+    const win = windows[i];
+    if (onStatusUpdate) {
+      onStatusUpdate(
+        `Transcribing segment ${i + 1}/${windows.length} (${describeWindow(win)})...`,
+        40 + Math.floor((i / windows.length) * 40)
+      );
+    }
+    cues.push(...clipToWindow(await provider.transcribe(media, win, ctx), win));
+  }
+
+  return stitchCues(cues, duration);
+};
+
+// --- MAIN PROCESS FUNCTION ---
+export const processMedia = async (
+  file: File,
+  options: ProcessingOptions,
+  onStatusUpdate?: StatusUpdateCallback,
+  signal?: AbortSignal
+): Promise<ProcessedData> => {
+  const provider = getProvider(options.provider);
+  const ctx: ProviderContext = {
+    options,
+    model: options.model || provider.defaultModel,
+    onStatusUpdate,
+    signal,
+  };
+
+  try {
+    throwIfAborted(signal);
+
+    let subtitles: Subtitle[];
+    if (options.importedSubtitles?.length) {
+      // Translate-only path: the sidecar file already has accurate original text and timing
+      const imported = normalizeSubtitles(options.importedSubtitles);
+      const translated = await translateLines(imported.map(s => s.textOriginal), provider, ctx, 10, 86);
+      subtitles = imported.map((sub, index) => ({ ...sub, textTranslated: translated[index] }));
+    } else {
+      subtitles = await transcribeMedia(file, provider, ctx);
+      await translateMissing(subtitles, provider, ctx);
+    }
+
+    let translationTracks: string[] = [];
+    const extras = options.extraTargetLanguages.filter(l => l !== options.targetLanguage);
+    for (let i = 0; i < extras.length; i++) {
+      const span = 6 / extras.length;
+      subtitles = await translateTrack(subtitles, extras[i], provider, ctx, 86 + i * span, 86 + (i + 1) * span);
+      translationTracks = withTrack(translationTracks, getLanguageCode(extras[i]));
+    }
+
+    if (onStatusUpdate) onStatusUpdate("Writing notes & flashcards...", 92);
+    const { notes, flashcards } = (options.generateNotes || options.generateFlashcards)
+      ? await provider.summarize(subtitles, ctx)
+      : { notes: [], flashcards: [] };
+
+    return {
+      subtitles,
+      notes,
+      flashcards: flashcards.map(card => ({ ...card, sourceMs: card.sourceMs ?? locateInTranscript(subtitles, card) ?? undefined })),
+      originalLanguage: options.originalLanguage,
+      targetLanguage: options.targetLanguage,
+      translationTracks
+    };
+
+  } catch (error: any) {
+    throw toFriendlyError(error, provider);
+  }
+};
+
+// Provider context for follow-up calls made from the Dashboard on already processed data
+const followUpContext = (data: ProcessedData, onStatusUpdate?: StatusUpdateCallback, signal?: AbortSignal) => {
+  const settings = loadProviderSettings();
+  const provider = getProvider(settings.provider);
+  const ctx: ProviderContext = {
+    options: {
+      generateNotes: false,
+      generateFlashcards: false,
+      originalLanguage: data.originalLanguage,
+      targetLanguage: data.targetLanguage,
+      extraTargetLanguages: [],
+      provider: settings.provider,
+    },
+    model: settings.model || provider.defaultModel,
+    onStatusUpdate,
+    signal,
+  };
+  return { provider, ctx };
+};
+
+// --- ADD TRACK (from Dashboard, on already processed data) ---
+export const addTranslationTrack = async (
+  data: ProcessedData,
+  languageName: string,
+  onStatusUpdate?: StatusUpdateCallback,
+  signal?: AbortSignal
+): Promise<ProcessedData> => {
+  const { provider, ctx } = followUpContext(data, onStatusUpdate, signal);
+
+  try {
+    const subtitles = await translateTrack(data.subtitles, languageName, provider, ctx, 0, 100);
+    return {
+      ...data,
+      subtitles,
+      translationTracks: withTrack(data.translationTracks, getLanguageCode(languageName))
+    };
+  } catch (error: any) {
+    throw toFriendlyError(error, provider);
+  }
+};
+
+// --- DEFINE A SELECTED WORD (click-to-define in captions and transcript) ---
+export const defineTerm = async (
+  data: ProcessedData,
+  term: string,
+  sentence: string,
+  signal?: AbortSignal
+): Promise<TermDefinition> => {
+  const { provider, ctx } = followUpContext(data, undefined, signal);
+
+  try {
+    return await provider.define(term, sentence, ctx);
+  } catch (error: any) {
+    throw toFriendlyError(error, provider);
+  }
+};
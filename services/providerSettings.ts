@@ -0,0 +1,32 @@
+import { ProviderId } from "../types";
+
+// Provider choice is persisted in localStorage next to the Gemini key
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;          // Empty string = provider default
+  baseUrl: string;        // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+  endpointApiKey: string; // Bearer token for the OpenAI-compatible endpoint (optional for local servers)
+}
+
+const SETTINGS_KEY = "ai_provider_settings";
+
+const DEFAULT_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: '',
+  baseUrl: 'http://localhost:8080/v1',
+  endpointApiKey: '',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring malformed provider settings", e);
+  }
+  return { ...DEFAULT_SETTINGS };
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
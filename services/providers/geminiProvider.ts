@@ -0,0 +1,384 @@
+import { GoogleGenAI, Schema, Type, Part, Modality, GenerateContentResponse, FinishReason } from "@google/genai";
+import { Subtitle, StatusUpdateCallback } from "../../types";
+import type { AIProvider, ProviderContext, StudyMaterials, TermDefinition, TimeWindow, TranscriptCue } from "../aiProvider";
+import { CANCELLED_MESSAGE, delay, runWithCancellation, throwIfAborted } from "../abortUtils";
+import { decodeBase64, decodePCM16 } from "../audioUtils";
+import { formatTime, parseTimestamp, secondsToMs } from "../timeUtils";
+
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const MIN_SEGMENT_SECONDS = 60; // Below this a truncated window is reported instead of split again
+const OUTPUT_TOKENS = 8192;
+const TIMESTAMP_TOLERANCE_SECONDS = 2;
+
+// --- HELPER: Get API Key ---
+export const getApiKey = (): string | null => {
+  // 1. Check Local Storage (User provided key)
+  const localKey = localStorage.getItem("gemini_api_key");
+  if (localKey && localKey.trim().length > 0) return localKey;
+
+  // 2. Check Environment Variable (Dev provided key)
+  if (process.env.API_KEY && process.env.API_KEY.length > 0) return process.env.API_KEY;
+
+  return null;
+};
+
+const createClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!apiKey) throw new Error("API Key is missing. Please click the Key icon to add your Gemini API Key.");
+  return new GoogleGenAI({ apiKey });
+};
+
+const fileToGenerativePart = async (file: File, signal?: AbortSignal): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    if (signal) {
+        signal.addEventListener('abort', () => {
+            reader.abort();
+            reject(new Error(CANCELLED_MESSAGE));
+        });
+    }
+    reader.onloadend = () => {
+      if (reader.result) {
+        const base64String = reader.result as string;
+        const base64Content = base64String.split(',')[1];
+        resolve(base64Content);
+      } else {
+        reject(new Error("Failed to read file"));
+      }
+    };
+    reader.onerror = () => reject(new Error("Error reading file"));
+    reader.readAsDataURL(file);
+  });
+};
+
+const waitForFileActive = async (
+  ai: GoogleGenAI,
+  fileName: string,
+  onStatusUpdate?: StatusUpdateCallback,
+  signal?: AbortSignal
+): Promise<void> => {
+  console.log(`Waiting for file ${fileName} to become active...`);
+  const maxAttempts = 120; // Increased attempts for larger files
+  const delayMs = 5000;
+
+  for (let i = 0; i < maxAttempts; i++) {
+    throwIfAborted(signal);
+
+    // Cast to any because the generic wrapper returns unknown in some contexts or SDK types are complex
+    const fileStatus = await runWithCancellation(ai.files.get({ name: fileName }), signal) as any;
+    const state = fileStatus.state;
+    console.log(`File state: ${state}`);
+
+    if (state === 'ACTIVE') return;
+    if (state === 'FAILED') throw new Error("File processing failed on Gemini server.");
+
+    if (onStatusUpdate) {
+        const progress = 15 + Math.floor((i / maxAttempts) * 25);
+        onStatusUpdate(`Google is processing video... (State: ${state})`, progress);
+    }
+
+    await delay(delayMs, signal);
+  }
+  throw new Error("File upload timed out.");
+};
+
+// --- SCHEMAS (short keys save output tokens on long media) ---
+const subtitleSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    subs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          s: { type: Type.STRING },  // startTime
+          e: { type: Type.STRING },  // endTime
+          en: { type: Type.STRING }, // textOriginal
+          tr: { type: Type.STRING }, // textTranslated
+        },
+        required: ["s", "e", "en", "tr"],
+      },
+    },
+  },
+  required: ["subs"],
+};
+
+const translationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    lines: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["lines"],
+};
+
+const studySchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    nts: { // notes
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ts: { type: Type.STRING }, // timestamp
+          ti: { type: Type.STRING }, // title
+          co: { type: Type.STRING }, // content
+        },
+        required: ["ts", "ti", "co"],
+      },
+    },
+    cards: { // flashcards
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          t: { type: Type.STRING }, // term
+          d: { type: Type.STRING }, // definition
+          c: { type: Type.STRING }, // context
+        },
+        required: ["id", "t", "d", "c"],
+      },
+    },
+  },
+  required: ["nts", "cards"],
+};
+
+const definitionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    tr: { type: Type.STRING },  // translation
+    d: { type: Type.STRING },   // definition in context
+    pos: { type: Type.STRING }, // part of speech
+  },
+  required: ["tr", "d"],
+};
+
+const generateJSON = async (
+  ai: GoogleGenAI,
+  model: string,
+  parts: Part[],
+  schema: Schema,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> => {
+  const generatePromise = ai.models.generateContent({
+    model,
+    contents: { parts },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: schema,
+      maxOutputTokens: OUTPUT_TOKENS,
+    }
+  });
+  // Cast to GenerateContentResponse or any to fix access errors
+  return await runWithCancellation(generatePromise, signal) as GenerateContentResponse;
+};
+
+const describeWindow = (win: TimeWindow) =>
+  isFinite(win.end) ? `${formatTime(secondsToMs(win.start))}–${formatTime(secondsToMs(win.end))}` : 'full media';
+
+// --- PREPARE MEDIA (inline for small files, Files API for large ones) ---
+const prepareMedia = async (file: File, _durationSec: number | null, ctx: ProviderContext): Promise<Part> => {
+  const { onStatusUpdate, signal } = ctx;
+  const ai = createClient();
+  const mimeType = file.type;
+  const INLINE_SIZE_LIMIT = 20 * 1024 * 1024;
+
+  if (file.size < INLINE_SIZE_LIMIT) {
+    if (onStatusUpdate) onStatusUpdate("Optimizing small file...", 30);
+    const base64Data = await fileToGenerativePart(file, signal);
+    return { inlineData: { mimeType: mimeType, data: base64Data } };
+  }
+
+  if (onStatusUpdate) onStatusUpdate("Uploading large file to Gemini...", 10);
+  const uploadPromise = ai.files.upload({
+    file: file,
+    config: { displayName: file.name, mimeType: mimeType }
+  });
+  // Cast to any to avoid 'unknown' type errors from the wrapper
+  const uploadResult = await runWithCancellation(uploadPromise, signal) as any;
+  const fileUri = uploadResult.uri;
+  const fileName = uploadResult.name;
+  if (!fileUri || !fileName) throw new Error("Upload failed.");
+
+  if (onStatusUpdate) onStatusUpdate("File uploaded. Waiting for processing...", 15);
+  await waitForFileActive(ai, fileName, onStatusUpdate, signal);
+  return { fileData: { fileUri: fileUri, mimeType: mimeType } };
+};
+
+// --- TRANSCRIBE ONE TIME WINDOW ---
+const transcribe = async (mediaPart: Part, win: TimeWindow, ctx: ProviderContext): Promise<TranscriptCue[]> => {
+  const { options, model, signal } = ctx;
+  const ai = createClient();
+  const bounded = isFinite(win.end);
+  const langInstruction = options.originalLanguage === 'Auto Detect'
+    ? "Detect language automatically."
+    : `Original language is ${options.originalLanguage}.`;
+
+  const promptText = `
+    Task: Transcribe and translate ${bounded ? `ONLY the segment from ${formatTime(secondsToMs(win.start))} to ${formatTime(secondsToMs(win.end))}` : 'the media file'}.
+    ${langInstruction}
+
+    CRITICAL INSTRUCTIONS:
+    1. **VERBATIM TRANSCRIPTION**: Transcribe EVERY sentence spoken in this segment. Do not summarize.
+    2. **NO GAPS**: The 'subs' array must cover the whole segment.
+    3. **ABSOLUTE TIMESTAMPS**: Times are measured from the start of the FULL media, not from the start of the segment.
+
+    OUTPUT MAPPING (JSON):
+    - 'subs': Subtitles.
+      - s: Start Time (HH:MM:SS.mmm, millisecond precision)
+      - e: End Time (HH:MM:SS.mmm, millisecond precision)
+      - en: Original text (Verbatim)
+      - tr: ${options.targetLanguage} translation (Accurate & Natural)
+  `;
+
+  const segmentPart: Part = bounded
+    ? { ...mediaPart, videoMetadata: { startOffset: `${Math.floor(win.start)}s`, endOffset: `${Math.ceil(win.end)}s` } }
+    : mediaPart;
+
+  const response = await generateJSON(ai, model, [segmentPart, { text: promptText }], subtitleSchema, signal);
+  const finishReason = response.candidates?.[0]?.finishReason;
+
+  // A truncated window is split in half and retried instead of being silently cut off
+  if (finishReason === FinishReason.MAX_TOKENS) {
+    if (bounded && win.end - win.start > MIN_SEGMENT_SECONDS) {
+      const mid = win.start + (win.end - win.start) / 2;
+      const first = await transcribe(mediaPart, { start: win.start, end: mid }, ctx);
+      const second = await transcribe(mediaPart, { start: mid, end: win.end }, ctx);
+      return [...first, ...second];
+    }
+    throw new Error(`Transcript for ${describeWindow(win)} exceeded the response limit.`);
+  }
+
+  if (!response.text) throw new Error(`No response from AI for ${describeWindow(win)}`);
+
+  const rawData = JSON.parse(response.text.trim());
+  // Cues with an unreadable start are rejected here; the rest is repaired by normalizeSubtitles
+  let cues: TranscriptCue[] = [];
+  for (const s of rawData.subs || []) {
+    const startMs = parseTimestamp(s.s);
+    if (startMs === null) continue;
+    const endMs = parseTimestamp(s.e) ?? startMs;
+    cues.push({ start: startMs / 1000, end: endMs / 1000, original: s.en || '', translation: s.tr || '' });
+  }
+
+  // Some responses count from the segment start despite the prompt; shift them back into place
+  const windowLength = win.end - win.start;
+  const looksRelative = bounded && win.start > 0 && cues.length > 0 &&
+    cues.every(c => c.start <= windowLength + TIMESTAMP_TOLERANCE_SECONDS) &&
+    cues[0].start < win.start - TIMESTAMP_TOLERANCE_SECONDS;
+  if (looksRelative) {
+    cues = cues.map(c => ({ ...c, start: c.start + win.start, end: c.end + win.start }));
+  }
+
+  return cues;
+};
+
+// --- TRANSLATE (text only) ---
+const translate = async (lines: string[], ctx: ProviderContext): Promise<string[]> => {
+  const ai = createClient();
+  const promptText = `
+    Translate each line into ${ctx.options.targetLanguage} (Accurate & Natural).
+    Return 'lines' with exactly ${lines.length} entries, in the same order.
+
+    LINES (JSON):
+    ${JSON.stringify(lines)}
+  `;
+
+  const response = await generateJSON(ai, ctx.model, [{ text: promptText }], translationSchema, ctx.signal);
+  if (!response.text) throw new Error("No response from AI");
+  return JSON.parse(response.text.trim()).lines || [];
+};
+
+// --- NOTES & FLASHCARDS FROM THE STITCHED TRANSCRIPT ---
+const summarize = async (subtitles: Subtitle[], ctx: ProviderContext): Promise<StudyMaterials> => {
+  const { options, model, signal } = ctx;
+  const ai = createClient();
+  const transcript = subtitles.map(s => `[${formatTime(s.startMs)}] ${s.textOriginal}`).join('\n');
+  const promptText = `
+    Task: Create study material from this timestamped transcript.
+
+    OUTPUT MAPPING (JSON):
+    - 'nts': Study Notes (${options.generateNotes ? "Required, approx 1 note every 2-3 mins" : "Return empty array"}).
+      - ts: Timestamp (HH:MM:SS) taken from the transcript
+      - Key concepts and summary of sections.
+
+    - 'cards': Flashcards (${options.generateFlashcards ? "Required, max 10 key terms" : "Return empty array"}).
+      - Important vocabulary found in the transcript, with ${options.targetLanguage} definitions.
+
+    TRANSCRIPT:
+    ${transcript}
+  `;
+
+  const response = await generateJSON(ai, model, [{ text: promptText }], studySchema, signal);
+  if (!response.text) throw new Error("No response from AI");
+
+  const rawData = JSON.parse(response.text.trim());
+  return {
+    notes: (rawData.nts || []).map((n: any) => ({
+      timestampMs: parseTimestamp(n.ts) ?? 0,
+      title: n.ti,
+      content: n.co
+    })),
+    flashcards: (rawData.cards || []).map((c: any) => ({
+      id: c.id || Math.random().toString(),
+      term: c.t,
+      definition: c.d,
+      context: c.c
+    }))
+  };
+};
+
+// --- DEFINE (click-to-define in captions) ---
+const define = async (term: string, sentence: string, ctx: ProviderContext): Promise<TermDefinition> => {
+  const ai = createClient();
+  const promptText = `
+    A language learner selected "${term}" in this subtitle line:
+    "${sentence}"
+
+    OUTPUT MAPPING (JSON):
+    - 'tr': Translation of "${term}" into ${ctx.options.targetLanguage}, as used in this line (a few words).
+    - 'd': One-sentence explanation in ${ctx.options.targetLanguage} of what it means here.
+    - 'pos': Part of speech (e.g. noun, verb, idiom).
+  `;
+
+  const response = await generateJSON(ai, ctx.model, [{ text: promptText }], definitionSchema, ctx.signal);
+  if (!response.text) throw new Error("No response from AI");
+  const rawData = JSON.parse(response.text.trim());
+  return { translation: rawData.tr || '', definition: rawData.d || '', partOfSpeech: rawData.pos };
+};
+
+// --- TTS ---
+const speak = async (text: string, voiceName: string, language: string, audioContext: BaseAudioContext): Promise<AudioBuffer> => {
+  const ai = createClient();
+
+  const response = await ai.models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text: text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
+          languageCode: language,
+      },
+    },
+  });
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) throw new Error("No audio data generated");
+
+  return await decodePCM16(decodeBase64(base64Audio), audioContext, 24000, 1);
+};
+
+export const geminiProvider: AIProvider<Part> = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: "gemini-3-flash-preview",
+  segmentSeconds: 300, // 5 min windows keep each response well under the token cap
+  requiresApiKey: true,
+  prepareMedia,
+  transcribe,
+  translate,
+  summarize,
+  define,
+  speak,
+};
@@ -0,0 +1,96 @@
+import { Subtitle } from "../../types";
+import type { AIProvider, ProviderContext, StudyMaterials, TermDefinition, TimeWindow, TranscriptCue } from "../aiProvider";
+import { throwIfAborted } from "../abortUtils";
+import { getLanguageCode } from "../languages";
+
+// Deterministic offline provider: same input, same output, no network.
+// Lets the whole upload → dashboard flow run without an API key.
+const CUE_SECONDS = 4;
+const FALLBACK_DURATION_SECONDS = 60;
+const SAMPLE_SENTENCES = [
+  "Welcome to today's lesson.",
+  "Let's review the key vocabulary first.",
+  "This concept appears again later in the video.",
+  "Pay attention to how the sentence is structured.",
+  "Try repeating this line out loud.",
+];
+
+interface MockMedia {
+  durationSec: number;
+}
+
+const mockTranslation = (line: string, language: string) => `[${getLanguageCode(language)}] ${line}`;
+
+const prepareMedia = async (_file: File, durationSec: number | null, ctx: ProviderContext): Promise<MockMedia> => {
+  if (ctx.onStatusUpdate) ctx.onStatusUpdate("Mock provider: skipping upload...", 30);
+  return { durationSec: durationSec || FALLBACK_DURATION_SECONDS };
+};
+
+const transcribe = async (media: MockMedia, win: TimeWindow, ctx: ProviderContext): Promise<TranscriptCue[]> => {
+  throwIfAborted(ctx.signal);
+  const end = Math.min(win.end, media.durationSec);
+  const cues: TranscriptCue[] = [];
+  for (let start = Math.ceil(win.start / CUE_SECONDS) * CUE_SECONDS; start < end; start += CUE_SECONDS) {
+    const index = start / CUE_SECONDS;
+    const original = `${SAMPLE_SENTENCES[index % SAMPLE_SENTENCES.length]} (#${index + 1})`;
+    cues.push({ start, end: Math.min(start + CUE_SECONDS - 0.5, end), original, translation: mockTranslation(original, ctx.options.targetLanguage) });
+  }
+  return cues;
+};
+
+const translate = async (lines: string[], ctx: ProviderContext): Promise<string[]> =>
+  lines.map(line => mockTranslation(line, ctx.options.targetLanguage));
+
+const summarize = async (subtitles: Subtitle[], ctx: ProviderContext): Promise<StudyMaterials> => {
+  const { options } = ctx;
+  // One note per ~30 lines (2 min at CUE_SECONDS)
+  const notes = options.generateNotes
+    ? subtitles.filter((_, i) => i % 30 === 0).map((s, i) => ({
+        timestampMs: s.startMs,
+        title: `Section ${i + 1}`,
+        content: s.textOriginal
+      }))
+    : [];
+  const flashcards = options.generateFlashcards
+    ? ['lesson', 'vocabulary', 'concept', 'sentence', 'repeat'].map((term, i) => ({
+        id: `mock-${i + 1}`,
+        term,
+        definition: mockTranslation(term, options.targetLanguage),
+        context: SAMPLE_SENTENCES[i]
+      }))
+    : [];
+  return { notes, flashcards };
+};
+
+const define = async (term: string, sentence: string, ctx: ProviderContext): Promise<TermDefinition> => ({
+  translation: mockTranslation(term, ctx.options.targetLanguage),
+  definition: `"${term}" as used in "${sentence}"`,
+  partOfSpeech: term.includes(' ') ? 'phrase' : undefined,
+});
+
+// A short tone whose length follows the text, so playback and dub export have something audible
+const speak = async (text: string, _voiceName: string, _language: string, audioContext: BaseAudioContext): Promise<AudioBuffer> => {
+  const sampleRate = 24000;
+  const seconds = Math.min(6, 0.4 + text.length * 0.05);
+  const buffer = audioContext.createBuffer(1, Math.floor(sampleRate * seconds), sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) {
+    const fade = Math.min(1, i / 480, (data.length - i) / 480);
+    data[i] = Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 0.2 * fade;
+  }
+  return buffer;
+};
+
+export const mockProvider: AIProvider<MockMedia> = {
+  id: 'mock',
+  label: 'Mock (offline demo)',
+  defaultModel: "mock-1",
+  segmentSeconds: 300,
+  requiresApiKey: false,
+  prepareMedia,
+  transcribe,
+  translate,
+  summarize,
+  define,
+  speak,
+};
@@ -0,0 +1,161 @@
+import { Subtitle } from "../../types";
+import type { AIProvider, ProviderContext, StudyMaterials, TermDefinition, TimeWindow, TranscriptCue } from "../aiProvider";
+import { loadProviderSettings } from "../providerSettings";
+import { formatTime, parseTimestamp } from "../timeUtils";
+
+// Works against any server exposing the OpenAI REST shape (/chat/completions, /audio/*),
+// e.g. llama.cpp server, LocalAI, vLLM or the OpenAI API itself.
+const TRANSCRIPTION_MODEL = "whisper-1";
+const TTS_MODEL = "tts-1";
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+interface TranscribedMedia {
+  segments: TranscriptCue[];
+}
+
+const endpoint = (path: string) => {
+  const { baseUrl } = loadProviderSettings();
+  if (!baseUrl) throw new Error("Endpoint URL is missing. Please set it in AI settings.");
+  return `${baseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+const authHeaders = (): Record<string, string> => {
+  const { endpointApiKey } = loadProviderSettings();
+  return endpointApiKey ? { Authorization: `Bearer ${endpointApiKey}` } : {};
+};
+
+const request = async (path: string, init: RequestInit, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(endpoint(path), {
+    ...init,
+    headers: { ...authHeaders(), ...(init.headers || {}) },
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`Endpoint error ${response.status}: ${detail.slice(0, 200)}`);
+  }
+  return response;
+};
+
+const chatJSON = async (prompt: string, ctx: ProviderContext): Promise<any> => {
+  const response = await request('/chat/completions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: ctx.model,
+      messages: [
+        { role: 'system', content: 'You reply with a single JSON object and nothing else.' },
+        { role: 'user', content: prompt },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0.2,
+    }),
+  }, ctx.signal);
+
+  const body = await response.json();
+  const content: string = body.choices?.[0]?.message?.content || '';
+  if (!content) throw new Error("No response from AI");
+  // Local models sometimes wrap JSON in a code fence
+  return JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+};
+
+// The transcription endpoint has no time-window parameter, so the whole file is
+// transcribed once here and transcribe() just hands back the segments.
+const prepareMedia = async (file: File, _durationSec: number | null, ctx: ProviderContext): Promise<TranscribedMedia> => {
+  if (ctx.onStatusUpdate) ctx.onStatusUpdate("Uploading media for transcription...", 15);
+
+  const form = new FormData();
+  form.append('file', file, file.name);
+  form.append('model', TRANSCRIPTION_MODEL);
+  form.append('response_format', 'verbose_json');
+  if (ctx.options.originalLanguage !== 'Auto Detect') form.append('prompt', `Language: ${ctx.options.originalLanguage}`);
+
+  const response = await request('/audio/transcriptions', { method: 'POST', body: form }, ctx.signal);
+  const body = await response.json();
+
+  return {
+    segments: (body.segments || []).map((s: any) => ({
+      start: Number(s.start) || 0,
+      end: Number(s.end) || 0,
+      original: (s.text || '').trim(),
+    })),
+  };
+};
+
+const transcribe = async (media: TranscribedMedia, win: TimeWindow): Promise<TranscriptCue[]> => {
+  return media.segments.filter(s => s.start >= win.start && s.start < win.end);
+};
+
+const translate = async (lines: string[], ctx: ProviderContext): Promise<string[]> => {
+  const result = await chatJSON(`
+    Translate each line into ${ctx.options.targetLanguage} (Accurate & Natural).
+    Return {"lines": [...]} with exactly ${lines.length} strings, in the same order.
+
+    LINES (JSON):
+    ${JSON.stringify(lines)}
+  `, ctx);
+  return result.lines || [];
+};
+
+const summarize = async (subtitles: Subtitle[], ctx: ProviderContext): Promise<StudyMaterials> => {
+  const { options } = ctx;
+  const transcript = subtitles.map(s => `[${formatTime(s.startMs)}] ${s.textOriginal}`).join('\n');
+  const result = await chatJSON(`
+    Create study material from this timestamped transcript.
+    Return {"nts": [{"ts": "HH:MM:SS", "ti": title, "co": content}], "cards": [{"id": string, "t": term, "d": definition, "c": context}]}.
+    - nts: ${options.generateNotes ? "approx 1 note every 2-3 mins" : "empty array"}
+    - cards: ${options.generateFlashcards ? `max 10 key terms with ${options.targetLanguage} definitions` : "empty array"}
+
+    TRANSCRIPT:
+    ${transcript}
+  `, ctx);
+
+  return {
+    notes: (result.nts || []).map((n: any) => ({
+      timestampMs: parseTimestamp(n.ts) ?? 0,
+      title: n.ti,
+      content: n.co
+    })),
+    flashcards: (result.cards || []).map((c: any) => ({
+      id: c.id || Math.random().toString(),
+      term: c.t,
+      definition: c.d,
+      context: c.c
+    }))
+  };
+};
+
+const define = async (term: string, sentence: string, ctx: ProviderContext): Promise<TermDefinition> => {
+  const result = await chatJSON(`
+    A language learner selected "${term}" in this subtitle line: "${sentence}"
+    Return {"tr": translation, "d": definition, "pos": part of speech}.
+    - tr: translation of "${term}" into ${ctx.options.targetLanguage} as used in this line (a few words)
+    - d: one-sentence explanation in ${ctx.options.targetLanguage} of what it means here
+  `, ctx);
+  return { translation: result.tr || '', definition: result.d || '', partOfSpeech: result.pos };
+};
+
+// The speech endpoint takes no language; it reads it from the text
+const speak = async (text: string, voiceName: string, _language: string, audioContext: BaseAudioContext): Promise<AudioBuffer> => {
+  const voice = OPENAI_VOICES.includes(voiceName.toLowerCase()) ? voiceName.toLowerCase() : OPENAI_VOICES[0];
+  const response = await request('/audio/speech', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: TTS_MODEL, input: text, voice, response_format: 'wav' }),
+  });
+  return await audioContext.decodeAudioData(await response.arrayBuffer());
+};
+
+export const openAICompatibleProvider: AIProvider<TranscribedMedia> = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible endpoint',
+  defaultModel: "gpt-4o-mini",
+  segmentSeconds: null,
+  requiresApiKey: false,
+  prepareMedia,
+  transcribe,
+  translate,
+  summarize,
+  define,
+  speak,
+};
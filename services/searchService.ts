@@ -0,0 +1,87 @@
+import { ProcessedData } from "../types";
+import { listCacheEntries } from "./cacheService";
+import { getTrackText, listTracks } from "./subtitleTracks";
+
+// Full-text search over one session (lines in every track, notes, flashcards) or every cached session
+
+export interface SearchHit {
+  kind: 'line' | 'note' | 'card';
+  field: string;              // Track label, "Note" or "Card"
+  text: string;
+  match: [number, number];    // Character range of the first match in `text`
+  timestampMs: number | null; // Cards without a source line have no time
+}
+
+export interface LibrarySearchResult {
+  fingerprint: string;
+  fileName: string;
+  hits: SearchHit[];
+}
+
+const MAX_HITS = 500;
+
+// --- FOLDING ---
+// Lowercased with accents stripped ("Việt" → "viet"), so the query can be typed without diacritics.
+// Folding works per character and keeps a map back to the original text for highlighting.
+const foldChar = (char: string) =>
+  char.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').replace(/Đ/g, 'D').toLowerCase();
+
+export const foldText = (text: string): string => Array.from(text, foldChar).join('');
+
+const foldWithMap = (text: string) => {
+  let folded = '';
+  const map: number[] = []; // folded index → original index
+  let offset = 0;
+  for (const char of Array.from(text)) {
+    const f = foldChar(char);
+    for (let i = 0; i < f.length; i++) map.push(offset);
+    folded += f;
+    offset += char.length;
+  }
+  map.push(offset);
+  return { folded, map };
+};
+
+const findMatch = (text: string, foldedQuery: string): [number, number] | null => {
+  const { folded, map } = foldWithMap(text);
+  const at = folded.indexOf(foldedQuery);
+  if (at === -1) return null;
+  return [map[at], map[at + foldedQuery.length]];
+};
+
+// --- SEARCH ---
+export const searchSession = (data: ProcessedData, query: string): SearchHit[] => {
+  const foldedQuery = foldText(query.trim());
+  if (!foldedQuery) return [];
+  const hits: SearchHit[] = [];
+  const add = (kind: SearchHit['kind'], field: string, text: string, timestampMs: number | null) => {
+    if (hits.length >= MAX_HITS || !text) return;
+    const match = findMatch(text, foldedQuery);
+    if (match) hits.push({ kind, field, text, match, timestampMs });
+  };
+
+  const tracks = listTracks(data);
+  data.subtitles.forEach(sub => {
+    tracks.forEach(track => add('line', track.label, getTrackText(sub, track), sub.startMs));
+  });
+  data.notes.forEach(note => {
+    const before = hits.length;
+    add('note', 'Note', note.title, note.timestampMs);
+    if (hits.length === before) add('note', 'Note', note.content, note.timestampMs);
+  });
+  data.flashcards.forEach(card => {
+    const before = hits.length;
+    for (const text of [card.term, card.definition, card.context]) {
+      add('card', 'Card', text, card.sourceMs ?? null);
+      if (hits.length > before) break;
+    }
+  });
+  return hits;
+};
+
+export const searchLibrary = async (query: string): Promise<LibrarySearchResult[]> => {
+  const entries = await listCacheEntries();
+  return entries
+    .map(entry => ({ fingerprint: entry.fingerprint, fileName: entry.fileName, hits: searchSession(entry.data, query) }))
+    .filter(result => result.hits.length > 0);
+};
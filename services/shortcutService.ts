@@ -0,0 +1,137 @@
+// Central keyboard shortcut registry: one window listener, bindings persisted in localStorage,
+// handlers registered by whichever components are on screen
+
+export type ShortcutAction =
+  | 'playPause'
+  | 'prevLine'
+  | 'nextLine'
+  | 'replayLine'
+  | 'toggleCaptions'
+  | 'toggleAutoDub'
+  | 'abLoop'
+  | 'flipCard'
+  | 'gradeAgain'
+  | 'gradeHard'
+  | 'gradeGood'
+  | 'gradeEasy'
+  | 'prevNote'
+  | 'nextNote'
+  | 'showShortcuts';
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+export const SHORTCUTS: { action: ShortcutAction; label: string; group: 'Player' | 'Flashcards' | 'Notes' | 'General'; defaultKey: string }[] = [
+  { action: 'playPause', label: 'Play / pause', group: 'Player', defaultKey: 'Space' },
+  { action: 'prevLine', label: 'Previous line', group: 'Player', defaultKey: 'ArrowLeft' },
+  { action: 'nextLine', label: 'Next line', group: 'Player', defaultKey: 'ArrowRight' },
+  { action: 'replayLine', label: 'Replay line', group: 'Player', defaultKey: 'R' },
+  { action: 'toggleCaptions', label: 'Toggle captions', group: 'Player', defaultKey: 'C' },
+  { action: 'toggleAutoDub', label: 'Toggle auto-dub', group: 'Player', defaultKey: 'D' },
+  { action: 'abLoop', label: 'A-B loop (set A, set B, clear)', group: 'Player', defaultKey: 'L' },
+  { action: 'flipCard', label: 'Flip card', group: 'Flashcards', defaultKey: 'F' },
+  { action: 'gradeAgain', label: 'Grade: Again', group: 'Flashcards', defaultKey: '1' },
+  { action: 'gradeHard', label: 'Grade: Hard', group: 'Flashcards', defaultKey: '2' },
+  { action: 'gradeGood', label: 'Grade: Good', group: 'Flashcards', defaultKey: '3' },
+  { action: 'gradeEasy', label: 'Grade: Easy', group: 'Flashcards', defaultKey: '4' },
+  { action: 'prevNote', label: 'Jump to previous note', group: 'Notes', defaultKey: 'Shift+N' },
+  { action: 'nextNote', label: 'Jump to next note', group: 'Notes', defaultKey: 'N' },
+  { action: 'showShortcuts', label: 'Show shortcuts', group: 'General', defaultKey: '?' },
+];
+
+const BINDINGS_KEY = "keyboard_shortcuts";
+
+const DEFAULT_BINDINGS = Object.fromEntries(SHORTCUTS.map(s => [s.action, s.defaultKey])) as ShortcutBindings;
+
+// --- BINDINGS ---
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const stored = localStorage.getItem(BINDINGS_KEY);
+    if (stored) return { ...DEFAULT_BINDINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Ignoring malformed shortcut bindings", e);
+  }
+  return { ...DEFAULT_BINDINGS };
+};
+
+let bindings: ShortcutBindings = loadShortcutBindings();
+
+export const getShortcutBindings = (): ShortcutBindings => bindings;
+
+export const getShortcutKey = (action: ShortcutAction): string => bindings[action];
+
+export const saveShortcutBindings = (next: ShortcutBindings) => {
+  bindings = next;
+  localStorage.setItem(BINDINGS_KEY, JSON.stringify(next));
+};
+
+export const resetShortcutBindings = (): ShortcutBindings => {
+  saveShortcutBindings({ ...DEFAULT_BINDINGS });
+  return bindings;
+};
+
+// A key already bound elsewhere is handed the old key of the action being changed, so nothing is lost
+export const rebindShortcut = (current: ShortcutBindings, action: ShortcutAction, key: string): ShortcutBindings => {
+  const next = { ...current, [action]: key };
+  const clash = (Object.keys(current) as ShortcutAction[]).find(a => a !== action && current[a] === key);
+  if (clash) next[clash] = current[action];
+  return next;
+};
+
+// "Shift+N", "Ctrl+ArrowLeft", "Space", "?" – shifted symbols are their own key, so no "Shift+" there
+export const keyFromEvent = (e: KeyboardEvent): string | null => {
+  if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return null;
+  let key = e.key === ' ' ? 'Space' : e.key;
+  const isLetter = key.length === 1 && key.toLowerCase() !== key.toUpperCase();
+  if (isLetter) key = key.toUpperCase();
+
+  const modifiers: string[] = [];
+  if (e.ctrlKey) modifiers.push('Ctrl');
+  if (e.altKey) modifiers.push('Alt');
+  if (e.metaKey) modifiers.push('Meta');
+  if (e.shiftKey && (key.length > 1 || isLetter)) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+};
+
+// "ArrowLeft" → "←" for display
+export const formatShortcutKey = (key: string) =>
+  key.replace('ArrowLeft', '←').replace('ArrowRight', '→').replace('ArrowUp', '↑').replace('ArrowDown', '↓');
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+// --- REGISTRY ---
+// Later registrations win, so a panel on top can take a key from the one underneath
+const registrations: ShortcutHandlers[] = [];
+
+const handleKeyDown = (e: KeyboardEvent) => {
+  if (e.defaultPrevented || e.repeat || isTypingTarget(e.target)) return;
+  const key = keyFromEvent(e);
+  if (!key) return;
+  // Space/Enter on a focused button already press it
+  if ((key === 'Space' || key === 'Enter') && (e.target as HTMLElement)?.tagName === 'BUTTON') return;
+
+  const action = (Object.keys(bindings) as ShortcutAction[]).find(a => bindings[a] === key);
+  if (!action) return;
+  for (let i = registrations.length - 1; i >= 0; i--) {
+    const handler = registrations[i][action];
+    if (handler) {
+      e.preventDefault();
+      handler();
+      return;
+    }
+  }
+};
+
+export const registerShortcuts = (handlers: ShortcutHandlers): (() => void) => {
+  if (registrations.length === 0) window.addEventListener('keydown', handleKeyDown);
+  registrations.push(handlers);
+  return () => {
+    const index = registrations.indexOf(handlers);
+    if (index !== -1) registrations.splice(index, 1);
+    if (registrations.length === 0) window.removeEventListener('keydown', handleKeyDown);
+  };
+};
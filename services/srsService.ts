@@ -0,0 +1,151 @@
+import { CardReview, Flashcard, ReviewGrade } from "../types";
+import { openDB, REVIEWS_STORE, runRequest } from "./db";
+
+// SM-2 style scheduler with Anki-like four-button grading
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // "Again" shows the card later in the same session
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+export const REVIEW_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' },
+];
+
+// Cloze cards are keyed by their line too, so mining a sentence never collides with a term card
+export const getCardKey = (card: Flashcard, targetLanguage: string) => card.kind === 'cloze'
+  ? `${targetLanguage}::cloze::${card.context.trim().toLowerCase()}::${card.term.trim().toLowerCase()}`
+  : `${targetLanguage}::${card.term.trim().toLowerCase()}`;
+
+const newReview = (card: Flashcard, targetLanguage: string, sourceFileName: string | undefined, now: number): CardReview => ({
+  cardKey: getCardKey(card, targetLanguage),
+  card,
+  targetLanguage,
+  sourceFileName,
+  ease: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now,
+  lastReviewedAt: null,
+  createdAt: now,
+});
+
+// --- SCHEDULING (pure) ---
+export const scheduleReview = (review: CardReview, grade: ReviewGrade, now = Date.now()): CardReview => {
+  let { ease, intervalDays, repetitions, lapses } = review;
+
+  if (grade === 'again') {
+    return {
+      ...review,
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: lapses + 1,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  // Classic SM-2 steps for Good: 1 day, 6 days, then interval × ease
+  const goodInterval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * ease);
+  if (grade === 'hard') {
+    intervalDays = Math.max(1, Math.round(Math.max(intervalDays, 1) * HARD_FACTOR));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === 'good') {
+    intervalDays = goodInterval;
+  } else {
+    intervalDays = Math.max(goodInterval + 1, Math.round(goodInterval * EASY_BONUS));
+    ease = ease + 0.15;
+  }
+
+  return {
+    ...review,
+    ease,
+    intervalDays,
+    repetitions: repetitions + 1,
+    lapses,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+};
+
+// "10m", "1d", "3mo" – shown on the grade buttons before answering
+export const describeInterval = (review: CardReview, grade: ReviewGrade, now = Date.now()) => {
+  const ms = scheduleReview(review, grade, now).dueAt - now;
+  if (ms < DAY_MS) return `${Math.round(ms / 60000)}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+// --- PERSISTENCE ---
+
+// Adds cards that are not in the deck yet. Existing schedules are never reset,
+// but their card content follows edits made in the video it came from (e.g. an attached clip).
+export const addCardsToDeck = async (cards: Flashcard[], targetLanguage: string, sourceFileName?: string): Promise<number> => {
+  if (cards.length === 0) return 0;
+  try {
+    const db = await openDB();
+    const now = Date.now();
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(REVIEWS_STORE, 'readwrite');
+      const store = tx.objectStore(REVIEWS_STORE);
+      let added = 0;
+      cards.forEach(card => {
+        const key = getCardKey(card, targetLanguage);
+        const request = store.get(key);
+        request.onsuccess = () => {
+          const existing = request.result as CardReview | undefined;
+          if (existing) {
+            const isSameSource = existing.sourceFileName === sourceFileName;
+            if (isSameSource && JSON.stringify(existing.card) !== JSON.stringify(card)) store.put({ ...existing, card });
+            return;
+          }
+          store.put(newReview(card, targetLanguage, sourceFileName, now));
+          added++;
+        };
+      });
+      tx.oncomplete = () => {
+        if (added > 0) console.log(`[IndexedDB] Added ${added} cards to the review deck`);
+        resolve(added);
+      };
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Failed to update review deck:", error);
+    return 0;
+  }
+};
+
+export const getDueReviews = async (now = Date.now()): Promise<CardReview[]> => {
+  try {
+    const due = await runRequest<CardReview[]>(REVIEWS_STORE, 'readonly',
+      store => store.index('dueAt').getAll(IDBKeyRange.upperBound(now)));
+    return due.sort((a, b) => a.dueAt - b.dueAt);
+  } catch (error) {
+    console.error("[IndexedDB] Reading due cards failed:", error);
+    return [];
+  }
+};
+
+export const getAllReviews = async (): Promise<CardReview[]> => {
+  try {
+    return await runRequest<CardReview[]>(REVIEWS_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error("[IndexedDB] Reading review deck failed:", error);
+    return [];
+  }
+};
+
+export const recordReview = async (review: CardReview, grade: ReviewGrade): Promise<CardReview> => {
+  const updated = scheduleReview(review, grade);
+  await runRequest(REVIEWS_STORE, 'readwrite', store => store.put(updated));
+  return updated;
+};
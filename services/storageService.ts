@@ -0,0 +1,209 @@
+import { CLIPS_STORE, DUBS_STORE, openDB, PRACTICE_STORE, REVIEWS_STORE, TRANSLATIONS_STORE, TTS_STORE, VOCABULARY_STORE } from "./db";
+import { deleteSession } from "./cacheService";
+import { clearSpeechCache } from "./ttsMemoryCache";
+import { resetVocabularyBackfill } from "./vocabularyService";
+
+// What the app keeps on this device, by category, and the size budget that evicts old sessions
+
+export type StorageCategory = 'transcripts' | 'tts' | 'clips' | 'reviews';
+
+export interface CategoryUsage {
+  category: StorageCategory;
+  label: string;
+  description: string;
+  bytes: number;
+  items: number;
+}
+
+export interface StorageReport {
+  usage: number | null; // navigator.storage.estimate(); includes database overhead
+  quota: number | null;
+  persisted: boolean;
+  categories: CategoryUsage[];
+}
+
+const BUDGET_KEY = "storage_budget_bytes";
+
+const CATEGORIES: { category: StorageCategory; label: string; description: string; stores: string[] }[] = [
+  { category: 'transcripts', label: 'Transcripts', description: 'Subtitles, notes and cards of every session', stores: [TRANSLATIONS_STORE] },
+  { category: 'tts', label: 'TTS audio', description: 'Synthesized speech for dubbing and card audio, with dub progress', stores: [TTS_STORE, DUBS_STORE] },
+  { category: 'clips', label: 'Line clips', description: 'Original audio cut for flashcards', stores: [CLIPS_STORE] },
+  { category: 'reviews', label: 'Review state', description: 'Review schedule, vocabulary library and practice results', stores: [REVIEWS_STORE, VOCABULARY_STORE, PRACTICE_STORE] },
+];
+
+// --- MEASURING ---
+// IndexedDB has no per-store size, so values are measured: blobs by size, everything else as JSON
+const measureValue = (value: any): number => {
+  if (value instanceof Blob) return value.size;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (Array.isArray(value)) return value.reduce((sum, item) => sum + measureValue(item), 2);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((sum, [key, item]) => sum + key.length + 3 + measureValue(item), 2);
+  }
+  return JSON.stringify(value ?? null).length;
+};
+
+// Only what sizing and eviction need: values are dropped as the cursor moves on, so a scan
+// never holds every transcript and speech buffer at once
+interface MeasuredRecord {
+  key: IDBValidKey;
+  bytes: number;
+  lastUsed: number;     // accessedAt, or the save time for records written before it existed
+  fingerprint?: string; // Session a clip, practice result or dub checkpoint belongs to
+  fileName?: string;
+}
+
+const measureStore = async (storeName: string): Promise<MeasuredRecord[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const records: MeasuredRecord[] = [];
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(records);
+        return;
+      }
+      const value = cursor.value;
+      records.push({
+        key: cursor.primaryKey,
+        bytes: measureValue(value) + measureValue(cursor.primaryKey),
+        lastUsed: value?.accessedAt ?? value?.timestamp ?? 0,
+        fingerprint: value?.fingerprint,
+        fileName: value?.fileName,
+      });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const getStorageReport = async (): Promise<StorageReport> => {
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate().catch(() => null) : null;
+  const persisted = navigator.storage?.persisted ? await navigator.storage.persisted().catch(() => false) : false;
+
+  const categories: CategoryUsage[] = [];
+  for (const { category, label, description, stores } of CATEGORIES) {
+    let bytes = 0;
+    let items = 0;
+    for (const storeName of stores) {
+      const records = await measureStore(storeName);
+      bytes += records.reduce((sum, r) => sum + r.bytes, 0);
+      items += records.length;
+    }
+    categories.push({ category, label, description, bytes, items });
+  }
+
+  return { usage: estimate?.usage ?? null, quota: estimate?.quota ?? null, persisted, categories };
+};
+
+// --- PURGING ---
+export const purgeCategory = async (category: StorageCategory): Promise<void> => {
+  const stores = CATEGORIES.find(c => c.category === category)!.stores;
+  if (category === 'tts') clearSpeechCache();
+
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    stores.forEach(storeName => tx.objectStore(storeName).clear());
+    tx.oncomplete = () => {
+      if (stores.includes(VOCABULARY_STORE)) resetVocabularyBackfill();
+      resolve();
+    };
+    tx.onerror = () => {
+      console.error("[IndexedDB] Purge failed:", tx.error);
+      reject(tx.error);
+    };
+  });
+};
+
+// --- BUDGET ---
+// Null = no limit. Speech and sessions (with their clips, practice results and dub progress) are evicted;
+// review state is never dropped.
+export const getStorageBudget = (): number | null => {
+  const stored = Number(localStorage.getItem(BUDGET_KEY));
+  return stored > 0 ? stored : null;
+};
+
+export const saveStorageBudget = (bytes: number | null) => {
+  if (bytes && bytes > 0) localStorage.setItem(BUDGET_KEY, String(Math.round(bytes)));
+  else localStorage.removeItem(BUDGET_KEY);
+};
+
+// Deletes least recently used speech, which is cheap to synthesize again, then least recently used
+// sessions until the stored data fits the budget. The open session is never evicted.
+// Resolves with the number of sessions removed.
+export const enforceStorageBudget = async (keepFingerprint?: string | null): Promise<number> => {
+  const budget = getStorageBudget();
+  if (budget === null) return 0;
+
+  const [entries, clips, practice, dubs, speech, ...rest] = await Promise.all([
+    measureStore(TRANSLATIONS_STORE),
+    measureStore(CLIPS_STORE),
+    measureStore(PRACTICE_STORE),
+    measureStore(DUBS_STORE),
+    measureStore(TTS_STORE),
+    measureStore(REVIEWS_STORE),
+    measureStore(VOCABULARY_STORE),
+  ]);
+  let total = [entries, clips, practice, dubs, speech, ...rest].reduce((sum, records) => sum + records.reduce((s, r) => s + r.bytes, 0), 0);
+  if (total <= budget) return 0;
+
+  const staleSpeech: IDBValidKey[] = [];
+  for (const record of speech.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= budget) break;
+    staleSpeech.push(record.key);
+    total -= record.bytes;
+  }
+  if (staleSpeech.length > 0) {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(TTS_STORE, 'readwrite');
+      staleSpeech.forEach(key => tx.objectStore(TTS_STORE).delete(key));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    console.log(`[IndexedDB] Evicted ${staleSpeech.length} synthesized lines to stay within the storage budget`);
+  }
+
+  // deleteSession also removes these, so they leave the total with their session
+  const sessionBytes = new Map<string, number>();
+  [...clips, ...practice, ...dubs].forEach(record => {
+    if (record.fingerprint) sessionBytes.set(record.fingerprint, (sessionBytes.get(record.fingerprint) || 0) + record.bytes);
+  });
+
+  const candidates = entries
+    .filter(entry => String(entry.key) !== keepFingerprint)
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+
+  let evicted = 0;
+  for (const entry of candidates) {
+    if (total <= budget) break;
+    const fingerprint = String(entry.key);
+    await deleteSession(fingerprint);
+    total -= entry.bytes + (sessionBytes.get(fingerprint) || 0);
+    evicted++;
+    console.log(`[IndexedDB] Evicted ${entry.fileName} to stay within the storage budget`);
+  }
+  return evicted;
+};
+
+// --- PERSISTENCE ---
+// Without it the browser may clear everything under storage pressure. Resolves with the granted state.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted()) return true;
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.warn("Persistent storage request failed", error);
+    return false;
+  }
+};
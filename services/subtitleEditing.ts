@@ -0,0 +1,112 @@
+import { Subtitle } from "../types";
+import { normalizeSubtitles } from "./cueNormalizer";
+
+// Pure cue operations used by the timeline editor. Every function returns a new
+// array; structural edits (split/merge/insert/delete) renumber ids from 1.
+
+export const MIN_CUE_MS = 200;
+const INSERTED_CUE_MS = 2000;
+
+const renumber = (subtitles: Subtitle[]) => subtitles.map((sub, index) => ({ ...sub, id: index + 1 }));
+
+// Splits at the word boundary closest to `ratio`; scripts without spaces split by character
+const splitText = (text: string, ratio: number): [string, string] => {
+  if (!text) return ['', ''];
+  const target = Math.round(text.length * ratio);
+  const spaces = [...text.matchAll(/\s+/g)].map(m => m.index!);
+  const cut = spaces.length > 0
+    ? spaces.reduce((best, i) => Math.abs(i - target) < Math.abs(best - target) ? i : best)
+    : target;
+  return [text.slice(0, cut).trim(), text.slice(cut).trim()];
+};
+
+const joinText = (a: string, b: string) => [a, b].filter(Boolean).join(' ');
+
+// --- TIMING ---
+
+// Moves one cue's boundaries, clamped so it never crosses its neighbours or shrinks below MIN_CUE_MS
+export const setCueTiming = (subtitles: Subtitle[], id: number, startMs: number, endMs: number): Subtitle[] => {
+  const index = subtitles.findIndex(s => s.id === id);
+  if (index === -1) return subtitles;
+  const prevEnd = index > 0 ? subtitles[index - 1].endMs : 0;
+  const nextStart = index < subtitles.length - 1 ? subtitles[index + 1].startMs : Number.POSITIVE_INFINITY;
+
+  const start = Math.round(Math.min(Math.max(startMs, prevEnd), nextStart - MIN_CUE_MS));
+  const end = Math.round(Math.max(Math.min(endMs, nextStart), start + MIN_CUE_MS));
+  return subtitles.map((sub, i) => i === index ? { ...sub, startMs: start, endMs: end } : sub);
+};
+
+// Shifts every cue by deltaMs; cues pushed before 0 or past the media end are repaired or dropped
+export const shiftAll = (subtitles: Subtitle[], deltaMs: number, durationMs?: number | null): Subtitle[] => {
+  const shifted = subtitles.map(sub => ({ ...sub, startMs: sub.startMs + deltaMs, endMs: sub.endMs + deltaMs }));
+  return normalizeSubtitles(shifted.filter(sub => sub.endMs > 0), durationMs, { keepEmpty: true });
+};
+
+// --- STRUCTURE ---
+
+export const canSplitAt = (sub: Subtitle, atMs: number) =>
+  atMs - sub.startMs >= MIN_CUE_MS && sub.endMs - atMs >= MIN_CUE_MS;
+
+export const splitCue = (subtitles: Subtitle[], id: number, atMs: number): Subtitle[] => {
+  const index = subtitles.findIndex(s => s.id === id);
+  const sub = subtitles[index];
+  if (!sub || !canSplitAt(sub, atMs)) return subtitles;
+
+  // Text is divided in proportion to where the split falls in time
+  const ratio = (atMs - sub.startMs) / (sub.endMs - sub.startMs);
+  const [origA, origB] = splitText(sub.textOriginal, ratio);
+  const [transA, transB] = splitText(sub.textTranslated, ratio);
+  const extraA: Record<string, string> = {};
+  const extraB: Record<string, string> = {};
+  Object.entries(sub.translations || {}).forEach(([code, text]) => {
+    [extraA[code], extraB[code]] = splitText(text, ratio);
+  });
+
+  const first: Subtitle = { ...sub, endMs: Math.round(atMs), textOriginal: origA, textTranslated: transA, translations: sub.translations && extraA };
+  const second: Subtitle = { ...sub, startMs: Math.round(atMs), textOriginal: origB, textTranslated: transB, translations: sub.translations && extraB };
+  return renumber([...subtitles.slice(0, index), first, second, ...subtitles.slice(index + 1)]);
+};
+
+export const mergeWithNext = (subtitles: Subtitle[], id: number): Subtitle[] => {
+  const index = subtitles.findIndex(s => s.id === id);
+  if (index === -1 || index >= subtitles.length - 1) return subtitles;
+  const a = subtitles[index];
+  const b = subtitles[index + 1];
+
+  const codes = new Set([...Object.keys(a.translations || {}), ...Object.keys(b.translations || {})]);
+  const translations: Record<string, string> = {};
+  codes.forEach(code => { translations[code] = joinText(a.translations?.[code] || '', b.translations?.[code] || ''); });
+
+  const merged: Subtitle = {
+    ...a,
+    endMs: b.endMs,
+    textOriginal: joinText(a.textOriginal, b.textOriginal),
+    textTranslated: joinText(a.textTranslated, b.textTranslated),
+    translations: codes.size > 0 ? translations : undefined,
+  };
+  return renumber([...subtitles.slice(0, index), merged, ...subtitles.slice(index + 2)]);
+};
+
+// Room for a new cue after `id` (or before the first cue when id is null), or null if the gap is too small
+const insertionSlot = (subtitles: Subtitle[], id: number | null, durationMs?: number | null) => {
+  const index = id === null ? -1 : subtitles.findIndex(s => s.id === id);
+  const start = index >= 0 ? subtitles[index].endMs : 0;
+  const limit = index + 1 < subtitles.length
+    ? subtitles[index + 1].startMs
+    : (durationMs || start + INSERTED_CUE_MS);
+  const end = Math.min(start + INSERTED_CUE_MS, limit);
+  return end - start >= MIN_CUE_MS ? { index, start, end } : null;
+};
+
+export const canInsertAfter = (subtitles: Subtitle[], id: number | null, durationMs?: number | null) =>
+  insertionSlot(subtitles, id, durationMs) !== null;
+
+export const insertCueAfter = (subtitles: Subtitle[], id: number | null, durationMs?: number | null): Subtitle[] => {
+  const slot = insertionSlot(subtitles, id, durationMs);
+  if (!slot) return subtitles;
+  const cue: Subtitle = { id: 0, startMs: slot.start, endMs: slot.end, textOriginal: '', textTranslated: '' };
+  return renumber([...subtitles.slice(0, slot.index + 1), cue, ...subtitles.slice(slot.index + 1)]);
+};
+
+export const deleteCue = (subtitles: Subtitle[], id: number): Subtitle[] =>
+  renumber(subtitles.filter(s => s.id !== id));
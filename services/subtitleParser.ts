@@ -0,0 +1,109 @@
+import { Subtitle } from "../types";
+import { parseTimestamp } from "./timeUtils";
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+
+interface ParsedCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export const getSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const ext = fileName.toLowerCase().slice(fileName.lastIndexOf('.'));
+  if (ext === '.srt') return 'srt';
+  if (ext === '.vtt') return 'vtt';
+  if (ext === '.ass' || ext === '.ssa') return 'ass';
+  return null;
+};
+
+export const isSubtitleFile = (file: File) => getSubtitleFormat(file.name) !== null;
+
+// Removes inline markup: <i>, <c.class>, <v Speaker>, {\an8}-style ASS overrides
+const cleanText = (text: string) =>
+  text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\\[Nn]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// --- SRT & WebVTT (same block structure: timing line followed by text lines) ---
+const parseBlocks = (content: string): ParsedCue[] => {
+  const cues: ParsedCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue; // Header, NOTE or STYLE block
+
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const endRaw = (rest || '').trim().split(/\s+/)[0]; // VTT cue settings follow the end time
+    // parseTimestamp covers "HH:MM:SS,mmm" (SRT) and "HH:MM:SS.mmm" / "MM:SS.mmm" (VTT)
+    const startMs = parseTimestamp(startRaw);
+    const endMs = parseTimestamp(endRaw);
+    if (startMs === null || endMs === null) continue;
+
+    const text = cleanText(lines.slice(timingIndex + 1).join(' '));
+    if (text) cues.push({ startMs, endMs, text });
+  }
+  return cues;
+};
+
+// --- ASS / SSA ---
+const parseASS = (content: string): ParsedCue[] => {
+  const cues: ParsedCue[] = [];
+  let inEvents = false;
+  let columns: string[] = [];
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (line.toLowerCase().startsWith('format:')) {
+      columns = line.slice(7).split(',').map(c => c.trim().toLowerCase());
+      continue;
+    }
+    if (!line.toLowerCase().startsWith('dialogue:') || columns.length === 0) continue;
+
+    // Text is the last column and may itself contain commas
+    const values = line.slice(9).split(',');
+    const fields = [...values.slice(0, columns.length - 1), values.slice(columns.length - 1).join(',')];
+    const field = (name: string) => fields[columns.indexOf(name)] || '';
+
+    const startMs = parseTimestamp(field('start')); // "H:MM:SS.cc"
+    const endMs = parseTimestamp(field('end'));
+    const text = cleanText(field('text'));
+    if (startMs !== null && endMs !== null && text) cues.push({ startMs, endMs, text });
+  }
+  return cues;
+};
+
+export const parseSubtitleText = (content: string, format: SubtitleFormat): Subtitle[] => {
+  const cues = format === 'ass' ? parseASS(content) : parseBlocks(content);
+  return cues
+    .sort((a, b) => a.startMs - b.startMs)
+    .map((cue, index) => ({
+      id: index + 1,
+      startMs: cue.startMs,
+      endMs: cue.endMs,
+      textOriginal: cue.text,
+      textTranslated: ''
+    }));
+};
+
+export const parseSubtitleFile = async (file: File): Promise<Subtitle[]> => {
+  const format = getSubtitleFormat(file.name);
+  if (!format) throw new Error("Unsupported subtitle format. Use .srt, .vtt or .ass.");
+
+  const subtitles = parseSubtitleText(await file.text(), format);
+  if (subtitles.length === 0) throw new Error(`No subtitle lines found in ${file.name}.`);
+  return subtitles;
+};
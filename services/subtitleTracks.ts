@@ -0,0 +1,41 @@
+import { ProcessedData, Subtitle } from "../types";
+import { getLanguageCode, getLanguageName } from "./languages";
+
+export const ORIGINAL_TRACK_ID = 'original';
+
+// A readable text layer of the transcript: the original speech, the primary
+// translation (textTranslated) or one of the extra translation tracks.
+export interface SubtitleTrack {
+  id: string; // ORIGINAL_TRACK_ID or a language code
+  kind: 'original' | 'primary' | 'extra';
+  label: string;
+  langCode: string;
+}
+
+export const listTracks = (data: ProcessedData): SubtitleTrack[] => {
+  const primaryCode = getLanguageCode(data.targetLanguage);
+  return [
+    {
+      id: ORIGINAL_TRACK_ID,
+      kind: 'original',
+      label: data.originalLanguage === 'Auto Detect' ? 'Original' : `${data.originalLanguage} (Original)`,
+      langCode: getLanguageCode(data.originalLanguage)
+    },
+    { id: primaryCode, kind: 'primary', label: data.targetLanguage, langCode: primaryCode },
+    ...(data.translationTracks || [])
+      .filter(code => code !== primaryCode)
+      .map(code => ({ id: code, kind: 'extra' as const, label: getLanguageName(code), langCode: code })),
+  ];
+};
+
+export const getTrackText = (sub: Subtitle, track: SubtitleTrack): string => {
+  if (track.kind === 'original') return sub.textOriginal;
+  if (track.kind === 'primary') return sub.textTranslated;
+  return sub.translations?.[track.id] || '';
+};
+
+export const setTrackText = (sub: Subtitle, track: SubtitleTrack, text: string): Subtitle => {
+  if (track.kind === 'original') return { ...sub, textOriginal: text };
+  if (track.kind === 'primary') return { ...sub, textTranslated: text };
+  return { ...sub, translations: { ...sub.translations, [track.id]: text } };
+};
@@ -0,0 +1,47 @@
+// Shared timestamp helpers. Everything in the data model is integer milliseconds;
+// strings only exist at the edges (model prompts/responses, subtitle files, display).
+
+// "SS", "MM:SS" or "HH:MM:SS", each with an optional ".mmm" / ",mmm" fraction
+// (1-3 digits, so ASS centiseconds "0:01:02.50" work too)
+const TIMESTAMP_PATTERN = /^(?:(?:(\d+):)?(\d{1,2}):)?(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+// Returns milliseconds, or null when the string is not a timestamp
+export const parseTimestamp = (value: string): number | null => {
+  const match = (value || '').trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  if (Number(s) >= 60 || (h !== undefined && Number(m) >= 60)) return null;
+  const ms = frac ? Math.round(Number(frac) * Math.pow(10, 3 - frac.length)) : 0;
+  return ((Number(h || 0) * 60 + Number(m || 0)) * 60 + Number(s)) * 1000 + ms;
+};
+
+const splitMs = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  return {
+    h: Math.floor(total / 3600000),
+    m: Math.floor((total % 3600000) / 60000),
+    s: Math.floor((total % 60000) / 1000),
+    ms: total % 1000,
+  };
+};
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+// "HH:MM:SS" – notes, prompts and transcript labels where whole seconds are enough
+export const formatTime = (ms: number): string => {
+  const { h, m, s } = splitMs(ms);
+  return `${pad(h)}:${pad(m)}:${pad(s)}`;
+};
+
+// "HH:MM:SS.mmm" (WebVTT) or "HH:MM:SS,mmm" (SRT)
+export const formatTimestamp = (ms: number, separator: '.' | ',' = '.'): string => {
+  return `${formatTime(ms)}${separator}${pad(splitMs(ms).ms, 3)}`;
+};
+
+// "H:MM:SS.cc" – ASS only has centisecond precision
+export const formatASSTimestamp = (ms: number): string => {
+  const { h, m, s, ms: rest } = splitMs(ms);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(rest / 10))}`;
+};
+
+export const secondsToMs = (seconds: number) => Math.round(seconds * 1000);
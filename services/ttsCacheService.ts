@@ -0,0 +1,130 @@
+import { ProviderId } from "../types";
+import { getTTSAudio } from "./aiProvider";
+import { runRequest, TTS_STORE } from "./db";
+import { loadProviderSettings } from "./providerSettings";
+import { cacheSpeech, getCachedSpeech } from "./ttsMemoryCache";
+
+// Synthesized speech is paid for once: every line is kept in memory for replays and as 16-bit PCM
+// in IndexedDB, so the player, dub export and Anki export share it across reloads
+
+export interface StoredSpeech {
+  key: string;
+  text: string;
+  voice: string;
+  provider: ProviderId;
+  language: string;
+  sampleRate: number;
+  channels: number;
+  pcm: ArrayBuffer; // Interleaved Int16
+  createdAt: number;
+  accessedAt: number;
+}
+
+const VOICE_KEY = "tts_voice";
+const DEFAULT_VOICE = 'Kore';
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000; // Access times only need day precision for eviction
+
+const speechKey = (text: string, voice: string, provider: ProviderId, language: string) =>
+  `${provider}::${voice}::${language}::${text.trim()}`;
+
+// --- VOICE PREFERENCE ---
+// One voice for the player, the dub track and card audio
+export const loadVoicePreference = (): string => localStorage.getItem(VOICE_KEY) || DEFAULT_VOICE;
+
+export const saveVoicePreference = (voice: string) => {
+  localStorage.setItem(VOICE_KEY, voice);
+};
+
+// --- PCM ENCODING ---
+const encodePCM16 = (buffer: AudioBuffer): ArrayBuffer => {
+  const { numberOfChannels, length } = buffer;
+  const pcm = new Int16Array(length * numberOfChannels);
+  for (let c = 0; c < numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < length; i++) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      pcm[i * numberOfChannels + c] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    }
+  }
+  return pcm.buffer;
+};
+
+const decodeStoredSpeech = (speech: StoredSpeech, ctx: BaseAudioContext): AudioBuffer => {
+  const pcm = new Int16Array(speech.pcm);
+  const frames = pcm.length / speech.channels;
+  const buffer = ctx.createBuffer(speech.channels, frames, speech.sampleRate);
+  for (let c = 0; c < speech.channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < frames; i++) data[i] = pcm[i * speech.channels + c] / 32768;
+  }
+  return buffer;
+};
+
+// --- LOOKUP ---
+const readStoredSpeech = async (key: string): Promise<StoredSpeech | undefined> => {
+  try {
+    return await runRequest<StoredSpeech | undefined>(TTS_STORE, 'readonly', store => store.get(key));
+  } catch (error) {
+    console.error("[IndexedDB] Reading speech failed:", error);
+    return undefined;
+  }
+};
+
+const storeSpeech = async (speech: StoredSpeech) => {
+  try {
+    await runRequest(TTS_STORE, 'readwrite', store => store.put(speech));
+  } catch (error) {
+    // Quota errors only cost a re-synthesis later
+    console.error("[IndexedDB] Saving speech failed:", error);
+  }
+};
+
+// Memory, then IndexedDB; null when the line was never synthesized (or has been evicted)
+export const getStoredSpeech = async (
+  text: string,
+  voice: string,
+  language: string,
+  ctx: BaseAudioContext,
+  provider: ProviderId = loadProviderSettings().provider
+): Promise<AudioBuffer | null> => {
+  const key = speechKey(text, voice, provider, language);
+  const cached = getCachedSpeech(key);
+  if (cached) return cached;
+
+  const stored = await readStoredSpeech(key);
+  if (!stored) return null;
+  const buffer = decodeStoredSpeech(stored, ctx);
+  cacheSpeech(key, buffer);
+  if (Date.now() - stored.accessedAt > TOUCH_INTERVAL_MS) storeSpeech({ ...stored, accessedAt: Date.now() });
+  return buffer;
+};
+
+// Synthesizes on a miss. Throws like getTTSAudio when synthesis fails.
+export const getSpeech = async (
+  text: string,
+  voice: string,
+  language: string,
+  ctx: BaseAudioContext,
+  provider: ProviderId = loadProviderSettings().provider
+): Promise<AudioBuffer> => {
+  const stored = await getStoredSpeech(text, voice, language, ctx, provider);
+  if (stored) return stored;
+
+  const key = speechKey(text, voice, provider, language);
+  const buffer = await getTTSAudio(text, voice, language, ctx, provider);
+  cacheSpeech(key, buffer);
+  const now = Date.now();
+  storeSpeech({
+    key,
+    text: text.trim(),
+    voice,
+    provider,
+    language,
+    sampleRate: buffer.sampleRate,
+    channels: buffer.numberOfChannels,
+    pcm: encodePCM16(buffer),
+    createdAt: now,
+    accessedAt: now,
+  });
+  return buffer;
+};
@@ -0,0 +1,39 @@
+// Memory layer of ttsCacheService: decoded lines kept for instant replays.
+// Bounded by decoded size; the least recently played line goes first.
+
+const MAX_BYTES = 64 * 1024 * 1024; // ~6 minutes of 24 kHz stereo float audio
+
+const buffers = new Map<string, AudioBuffer>(); // Insertion order = recency
+let totalBytes = 0;
+
+const bufferBytes = (buffer: AudioBuffer) => buffer.length * buffer.numberOfChannels * 4;
+
+export const getCachedSpeech = (key: string): AudioBuffer | undefined => {
+  const buffer = buffers.get(key);
+  if (buffer) {
+    buffers.delete(key);
+    buffers.set(key, buffer);
+  }
+  return buffer;
+};
+
+export const cacheSpeech = (key: string, buffer: AudioBuffer) => {
+  const previous = buffers.get(key);
+  if (previous) {
+    totalBytes -= bufferBytes(previous);
+    buffers.delete(key);
+  }
+  buffers.set(key, buffer);
+  totalBytes += bufferBytes(buffer);
+
+  for (const [oldestKey, oldest] of buffers) {
+    if (totalBytes <= MAX_BYTES || oldestKey === key) break;
+    buffers.delete(oldestKey);
+    totalBytes -= bufferBytes(oldest);
+  }
+};
+
+export const clearSpeechCache = () => {
+  buffers.clear();
+  totalBytes = 0;
+};
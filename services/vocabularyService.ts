@@ -0,0 +1,152 @@
+import { Flashcard, ProcessedData, Subtitle, VocabularyEntry, VocabularySource } from "../types";
+import { openDB, runRequest, VOCABULARY_STORE } from "./db";
+import { listCacheEntries } from "./cacheService";
+import { getCardKey } from "./srsService";
+import { isClozeCard } from "./clozeService";
+
+// Set once every cache entry written before the library existed has been imported
+const BACKFILL_FLAG = 'vocabulary_backfilled';
+
+// First cue that contains the card's context sentence (or, failing that, the term itself)
+export const locateInTranscript = (subtitles: Subtitle[], card: Flashcard): number | null => {
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const context = normalize(card.context || '');
+  const term = normalize(card.term);
+  const byContext = context && subtitles.find(s => {
+    const text = normalize(s.textOriginal);
+    return text && (context.includes(text) || text.includes(context));
+  });
+  const match = byContext || subtitles.find(s => normalize(s.textOriginal).includes(term));
+  return match ? match.startMs : null;
+};
+
+const toSource = (card: Flashcard, data: ProcessedData, fingerprint: string, fileName: string): VocabularySource => ({
+  fingerprint,
+  fileName,
+  timestampMs: card.sourceMs ?? locateInTranscript(data.subtitles, card),
+  context: card.context,
+});
+
+// --- SYNC FROM PROCESSED VIDEOS ---
+
+// Upserts the flashcards of one video. Sources from this video that no longer
+// have a card are removed; entries left with no source and no manual origin go too.
+// Terms the user deleted stay deleted.
+export const syncVocabulary = async (fingerprint: string, fileName: string, data: ProcessedData): Promise<void> => {
+  try {
+    const db = await openDB();
+    const now = Date.now();
+    // Mined sentences are review material, not vocabulary
+    const termCards = data.flashcards.filter(c => !isClozeCard(c));
+    const cardsByKey = new Map(termCards.map(c => [getCardKey(c, data.targetLanguage), c]));
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(VOCABULARY_STORE, 'readwrite');
+      const store = tx.objectStore(VOCABULARY_STORE);
+      const cursorRequest = store.openCursor();
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const entry = cursor.value as VocabularyEntry;
+          if (entry.deleted) {
+            cardsByKey.delete(entry.key);
+            cursor.continue();
+            return;
+          }
+          const card = cardsByKey.get(entry.key);
+          const otherSources = entry.sources.filter(s => s.fingerprint !== fingerprint);
+          if (card) {
+            cursor.update({ ...entry, sources: [...otherSources, toSource(card, data, fingerprint, fileName)], updatedAt: now });
+            cardsByKey.delete(entry.key);
+          } else if (otherSources.length !== entry.sources.length) {
+            if (otherSources.length === 0 && !entry.manual) cursor.delete();
+            else cursor.update({ ...entry, sources: otherSources, updatedAt: now });
+          }
+          cursor.continue();
+          return;
+        }
+
+        // Terms seen for the first time
+        cardsByKey.forEach((card, key) => {
+          store.put({
+            key,
+            term: card.term,
+            definition: card.definition,
+            targetLanguage: data.targetLanguage,
+            tags: [],
+            sources: [toSource(card, data, fingerprint, fileName)],
+            manual: false,
+            createdAt: now,
+            updatedAt: now,
+          } as VocabularyEntry);
+        });
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (error) {
+    console.error("Failed to update vocabulary library:", error);
+  }
+};
+
+const backfillFromCache = async () => {
+  if (localStorage.getItem(BACKFILL_FLAG)) return;
+  const entries = await listCacheEntries();
+  for (const entry of entries) {
+    await syncVocabulary(entry.fingerprint, entry.fileName, entry.data);
+  }
+  localStorage.setItem(BACKFILL_FLAG, '1');
+};
+
+// After the library is cleared, the next read imports every cached video again
+export const resetVocabularyBackfill = () => {
+  localStorage.removeItem(BACKFILL_FLAG);
+};
+
+// --- LIBRARY ---
+
+export const getVocabulary = async (): Promise<VocabularyEntry[]> => {
+  try {
+    await backfillFromCache();
+    const entries = await runRequest<VocabularyEntry[]>(VOCABULARY_STORE, 'readonly', store => store.getAll());
+    return entries.filter(entry => !entry.deleted).sort((a, b) => a.term.localeCompare(b.term));
+  } catch (error) {
+    console.error("[IndexedDB] Reading vocabulary failed:", error);
+    return [];
+  }
+};
+
+export const saveVocabularyEntry = async (entry: VocabularyEntry): Promise<VocabularyEntry> => {
+  const updated = { ...entry, updatedAt: Date.now() };
+  await runRequest(VOCABULARY_STORE, 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+// Manually added words are keyed like flashcards, so a later video with the same term merges into them
+export const createVocabularyEntry = async (term: string, definition: string, targetLanguage: string, tags: string[]): Promise<VocabularyEntry> => {
+  const now = Date.now();
+  const key = getCardKey({ id: '', term, definition, context: '' }, targetLanguage);
+  const existing = await runRequest<VocabularyEntry | undefined>(VOCABULARY_STORE, 'readonly', store => store.get(key));
+  if (existing && !existing.deleted) throw new Error(`"${term.trim()}" is already in your vocabulary.`);
+
+  return saveVocabularyEntry({
+    key,
+    term: term.trim(),
+    definition: definition.trim(),
+    targetLanguage,
+    tags,
+    sources: [],
+    manual: true,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// Leaves a tombstone: the cards the term came from are still in their videos and would re-add it on the next save
+export const deleteVocabularyEntry = async (entry: VocabularyEntry): Promise<void> => {
+  await saveVocabularyEntry({ ...entry, definition: '', tags: [], sources: [], manual: false, deleted: true });
+};
+
+export const parseTags = (input: string) =>
+  [...new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
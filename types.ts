@@ -1,28 +1,114 @@
 export interface Subtitle {
   id: number;
-  startTime: string; // HH:MM:SS format
-  endTime: string;
+  startMs: number;
+  endMs: number;
   textOriginal: string;
-  textVietnamese: string;
+  textTranslated: string; // In ProcessedData.targetLanguage
+  translations?: Record<string, string>; // Extra tracks keyed by language code, e.g. { 'ja-JP': '...' }
 }
 
 export interface Note {
-  timestamp: string;
+  timestampMs: number;
   title: string;
   content: string;
 }
 
+export type CardKind = 'term' | 'cloze';
+
+// Character range of `context` hidden on the front of a cloze card
+export interface ClozeRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+// Media stored outside the cache entry, e.g. an audio clip in the 'clips' store
+export interface MediaRef {
+  type: 'audio';
+  clipId: string;
+  startMs: number;
+  endMs: number;
+}
+
 export interface Flashcard {
   id: string;
+  term: string;       // Cloze cards: the hidden words
+  definition: string; // Cloze cards: the translated line, shown as a hint
+  context: string;    // Cloze cards: the full original line
+  sourceMs?: number; // Where the term is heard in the video
+  kind?: CardKind;   // Missing means 'term'
+  cloze?: ClozeRange[];
+  media?: MediaRef[];
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Spaced-repetition state of one card. Stored globally (not per video), so
+// the same term from two videos is one card and the deck grows over time.
+export interface CardReview {
+  cardKey: string; // Target language + normalized term
+  card: Flashcard; // Snapshot so the deck works without the source video
+  targetLanguage: string;
+  sourceFileName?: string;
+  ease: number; // SM-2 ease factor, >= 1.3
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+  dueAt: number; // epoch ms
+  lastReviewedAt: number | null;
+  createdAt: number;
+}
+
+// Where a vocabulary term was met: one cached video and the moment it is heard
+export interface VocabularySource {
+  fingerprint: string; // Cache key of the video
+  fileName: string;
+  timestampMs: number | null;
+  context: string;
+}
+
+// A term in the global "My Vocabulary" library, merged across every processed video
+export interface VocabularyEntry {
+  key: string; // Same as CardReview.cardKey
   term: string;
   definition: string;
-  context: string;
+  targetLanguage: string;
+  tags: string[];
+  sources: VocabularySource[];
+  manual: boolean; // Added by hand; kept even without sources
+  deleted?: boolean; // Removed by the user; kept so syncing the videos' cards doesn't bring it back
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PracticeMode = 'shadowing' | 'dictation';
+
+export interface PracticeAttempt {
+  mode: PracticeMode;
+  score: number; // 0..100
+  at: number;
+  typed?: string;   // Dictation answer
+  heard?: string;   // Shadowing: what speech recognition understood
+}
+
+// Practice history of one subtitle line, kept across sessions
+export interface PracticeRecord {
+  key: string;         // fingerprint + normalized line text, survives cue renumbering
+  fingerprint: string;
+  text: string;        // textOriginal of the line
+  startMs: number;
+  attempts: PracticeAttempt[];
+  bestScore: number;
+  lastScore: number;
+  updatedAt: number;
 }
 
 export interface ProcessedData {
   subtitles: Subtitle[];
   notes: Note[];
   flashcards: Flashcard[];
+  originalLanguage: string; // 'Auto Detect' when the source language was not specified
+  targetLanguage: string;
+  translationTracks?: string[]; // Language codes of the extra tracks, in the order they were added
 }
 
 export enum AppState {
@@ -32,10 +118,17 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
 export interface ProcessingOptions {
   generateNotes: boolean;
   generateFlashcards: boolean;
   originalLanguage: string;
+  targetLanguage: string;
+  extraTargetLanguages: string[]; // Additional translation tracks produced in the same run
+  provider: ProviderId;
+  model?: string; // Falls back to the provider's default model
+  importedSubtitles?: Subtitle[]; // Parsed sidecar file; skips transcription when present
 }
 
 export type StatusUpdateCallback = (status: string, progress?: number) => void;
\ No newline at end of file